@@ -0,0 +1,11 @@
+CREATE TABLE `order_status_history` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`order_id` integer NOT NULL,
+	`from_status` text,
+	`to_status` text NOT NULL,
+	`changed_by` integer,
+	`note` text,
+	`changed_at` text NOT NULL,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`changed_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
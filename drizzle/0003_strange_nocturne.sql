@@ -0,0 +1,30 @@
+CREATE TABLE `payment_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`event_id` text NOT NULL,
+	`event` text NOT NULL,
+	`provider_order_id` text,
+	`provider_payment_id` text,
+	`payload` text NOT NULL,
+	`received_at` text NOT NULL,
+	`processed_at` text
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `payment_events_event_id_unique` ON `payment_events` (`event_id`);--> statement-breakpoint
+CREATE TABLE `payments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`order_id` integer NOT NULL,
+	`provider` text DEFAULT 'razorpay' NOT NULL,
+	`provider_order_id` text NOT NULL,
+	`provider_payment_id` text,
+	`amount` real NOT NULL,
+	`currency` text DEFAULT 'INR' NOT NULL,
+	`status` text NOT NULL,
+	`method` text,
+	`error_reason` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `payments_provider_order_id_unique` ON `payments` (`provider_order_id`);--> statement-breakpoint
+ALTER TABLE `orders` ADD `payment_status` text DEFAULT 'pending' NOT NULL;
\ No newline at end of file
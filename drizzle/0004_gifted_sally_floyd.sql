@@ -0,0 +1,19 @@
+CREATE TABLE `refunds` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`payment_id` integer NOT NULL,
+	`order_id` integer NOT NULL,
+	`order_item_id` integer,
+	`provider_refund_id` text NOT NULL,
+	`amount` real NOT NULL,
+	`status` text NOT NULL,
+	`reason` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`payment_id`) REFERENCES `payments`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`order_item_id`) REFERENCES `order_items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `refunds_provider_refund_id_unique` ON `refunds` (`provider_refund_id`);--> statement-breakpoint
+ALTER TABLE `order_items` ADD `is_available` integer DEFAULT true;--> statement-breakpoint
+ALTER TABLE `payments` ADD `amount_refunded` real DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `delivery` ADD `cash_collected` real;--> statement-breakpoint
+ALTER TABLE `delivery` ADD `cash_collected_at` text;--> statement-breakpoint
+ALTER TABLE `orders` ADD `payment_method` text DEFAULT 'online' NOT NULL;
\ No newline at end of file
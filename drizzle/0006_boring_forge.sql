@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `auth_user_id` text REFERENCES user(id);--> statement-breakpoint
+CREATE UNIQUE INDEX `users_auth_user_id_unique` ON `users` (`auth_user_id`);
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Link existing domain profiles to better-auth accounts registered with the same email
+UPDATE `users`
+SET `auth_user_id` = (
+  SELECT `user`.`id` FROM `user` WHERE lower(`user`.`email`) = lower(`users`.`email`)
+)
+WHERE `auth_user_id` IS NULL
+  AND EXISTS (SELECT 1 FROM `user` WHERE lower(`user`.`email`) = lower(`users`.`email`));
@@ -0,0 +1,32 @@
+-- Full-text index over medicine names, brands and salts, kept in sync by triggers
+CREATE VIRTUAL TABLE `medicines_fts` USING fts5(
+  `name`,
+  `brand`,
+  `salt_composition`,
+  content='medicines',
+  content_rowid='id',
+  tokenize='unicode61 remove_diacritics 2',
+  prefix='2 3'
+);
+--> statement-breakpoint
+INSERT INTO `medicines_fts`(`medicines_fts`) VALUES ('rebuild');
+--> statement-breakpoint
+CREATE TRIGGER `medicines_fts_after_insert` AFTER INSERT ON `medicines` BEGIN
+  INSERT INTO `medicines_fts`(`rowid`, `name`, `brand`, `salt_composition`)
+  VALUES (new.`id`, new.`name`, new.`brand`, new.`salt_composition`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `medicines_fts_after_delete` AFTER DELETE ON `medicines` BEGIN
+  INSERT INTO `medicines_fts`(`medicines_fts`, `rowid`, `name`, `brand`, `salt_composition`)
+  VALUES ('delete', old.`id`, old.`name`, old.`brand`, old.`salt_composition`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `medicines_fts_after_update` AFTER UPDATE ON `medicines` BEGIN
+  INSERT INTO `medicines_fts`(`medicines_fts`, `rowid`, `name`, `brand`, `salt_composition`)
+  VALUES ('delete', old.`id`, old.`name`, old.`brand`, old.`salt_composition`);
+  INSERT INTO `medicines_fts`(`rowid`, `name`, `brand`, `salt_composition`)
+  VALUES (new.`id`, new.`name`, new.`brand`, new.`salt_composition`);
+END;
+--> statement-breakpoint
+-- Indexed terms, used to correct misspelled query words
+CREATE VIRTUAL TABLE `medicines_fts_vocab` USING fts5vocab(`medicines_fts`, 'row');
@@ -0,0 +1,19 @@
+CREATE TABLE `ingredients` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`normalized_name` text NOT NULL,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `ingredients_normalized_name_unique` ON `ingredients` (`normalized_name`);--> statement-breakpoint
+CREATE TABLE `medicine_ingredients` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`medicine_id` integer NOT NULL,
+	`ingredient_id` integer NOT NULL,
+	`strength` real,
+	`unit` text,
+	FOREIGN KEY (`medicine_id`) REFERENCES `medicines`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`ingredient_id`) REFERENCES `ingredients`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `medicine_ingredients_medicine_ingredient_unique` ON `medicine_ingredients` (`medicine_id`,`ingredient_id`);
\ No newline at end of file
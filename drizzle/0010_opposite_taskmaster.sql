@@ -0,0 +1,23 @@
+CREATE TABLE `interactions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ingredient_a_id` integer NOT NULL,
+	`ingredient_b_id` integer NOT NULL,
+	`severity` text NOT NULL,
+	`description` text NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`ingredient_a_id`) REFERENCES `ingredients`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`ingredient_b_id`) REFERENCES `ingredients`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `interactions_ingredient_pair_unique` ON `interactions` (`ingredient_a_id`,`ingredient_b_id`);--> statement-breakpoint
+CREATE TABLE `order_overrides` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`order_id` integer NOT NULL,
+	`type` text NOT NULL,
+	`overridden_by` integer NOT NULL,
+	`note` text NOT NULL,
+	`details` text,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`overridden_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,13 @@
+CREATE TABLE `inventory_batches` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`inventory_id` integer NOT NULL,
+	`batch_number` text NOT NULL,
+	`expiry_date` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`purchase_price` real NOT NULL,
+	`received_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`inventory_id`) REFERENCES `inventory`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `inventory_batches_inventory_batch_unique` ON `inventory_batches` (`inventory_id`,`batch_number`);
\ No newline at end of file
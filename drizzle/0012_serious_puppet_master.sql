@@ -0,0 +1,14 @@
+CREATE TABLE `stock_reservations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`order_id` integer NOT NULL,
+	`inventory_id` integer NOT NULL,
+	`quantity` integer NOT NULL,
+	`status` text DEFAULT 'active' NOT NULL,
+	`expires_at` text NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`inventory_id`) REFERENCES `inventory`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `stock_reservations_order_inventory_unique` ON `stock_reservations` (`order_id`,`inventory_id`);
\ No newline at end of file
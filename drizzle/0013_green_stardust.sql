@@ -0,0 +1,17 @@
+CREATE TABLE `stock_alerts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`inventory_id` integer NOT NULL,
+	`pharmacy_id` integer NOT NULL,
+	`medicine_id` integer NOT NULL,
+	`quantity` integer NOT NULL,
+	`threshold` integer NOT NULL,
+	`status` text DEFAULT 'open' NOT NULL,
+	`created_at` text NOT NULL,
+	`resolved_at` text,
+	FOREIGN KEY (`inventory_id`) REFERENCES `inventory`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`pharmacy_id`) REFERENCES `pharmacies`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`medicine_id`) REFERENCES `medicines`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `stock_alerts_open_inventory_unique` ON `stock_alerts` (`inventory_id`) WHERE "stock_alerts"."status" = 'open';--> statement-breakpoint
+ALTER TABLE `inventory` ADD `reorder_threshold` integer;
\ No newline at end of file
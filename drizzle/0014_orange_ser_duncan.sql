@@ -0,0 +1,4 @@
+ALTER TABLE `prescriptions` ADD `file_key` text;--> statement-breakpoint
+ALTER TABLE `prescriptions` ADD `file_name` text;--> statement-breakpoint
+ALTER TABLE `prescriptions` ADD `content_type` text;--> statement-breakpoint
+ALTER TABLE `prescriptions` ADD `file_size` integer;
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE `notifications` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`type` text NOT NULL,
+	`title` text NOT NULL,
+	`message` text NOT NULL,
+	`data` text,
+	`read_at` text,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `prescription_items` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`prescription_id` integer NOT NULL,
+	`order_item_id` integer NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`notes` text,
+	`reviewed_by` integer,
+	`reviewed_at` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`prescription_id`) REFERENCES `prescriptions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`order_item_id`) REFERENCES `order_items`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`reviewed_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `prescription_items_order_item_id_unique` ON `prescription_items` (`order_item_id`);--> statement-breakpoint
+ALTER TABLE `prescriptions` ADD `status` text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+UPDATE `prescriptions` SET `status` = 'verified' WHERE `is_verified` = 1;
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE `order_prescriptions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`order_id` integer NOT NULL,
+	`prescription_id` integer NOT NULL,
+	`dispensed_at` text,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`prescription_id`) REFERENCES `prescriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `order_prescriptions_order_prescription_unique` ON `order_prescriptions` (`order_id`,`prescription_id`);--> statement-breakpoint
+CREATE TABLE `prescription_medicines` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`prescription_id` integer NOT NULL,
+	`medicine_id` integer NOT NULL,
+	`quantity` integer NOT NULL,
+	`refills_allowed` integer DEFAULT 0 NOT NULL,
+	`refills_remaining` integer DEFAULT 0 NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`prescription_id`) REFERENCES `prescriptions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`medicine_id`) REFERENCES `medicines`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `prescription_medicines_prescription_medicine_unique` ON `prescription_medicines` (`prescription_id`,`medicine_id`);--> statement-breakpoint
+ALTER TABLE `prescriptions` ADD `issued_at` text;--> statement-breakpoint
+ALTER TABLE `prescriptions` ADD `expires_at` text;
\ No newline at end of file
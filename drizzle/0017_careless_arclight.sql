@@ -0,0 +1,17 @@
+CREATE TABLE `prescription_suggestions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`prescription_id` integer NOT NULL,
+	`medicine_id` integer NOT NULL,
+	`quantity` integer NOT NULL,
+	`confidence` real NOT NULL,
+	`source_text` text NOT NULL,
+	`status` text DEFAULT 'suggested' NOT NULL,
+	`reviewed_by` integer,
+	`reviewed_at` text,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`prescription_id`) REFERENCES `prescriptions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`medicine_id`) REFERENCES `medicines`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`reviewed_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `prescriptions` ADD `ocr_text` text;
\ No newline at end of file
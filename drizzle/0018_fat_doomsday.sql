@@ -0,0 +1 @@
+DROP INDEX `users_email_unique`;
\ No newline at end of file
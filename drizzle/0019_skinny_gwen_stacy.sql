@@ -0,0 +1,37 @@
+DROP INDEX "delivery_order_id_unique";--> statement-breakpoint
+DROP INDEX "ingredients_normalized_name_unique";--> statement-breakpoint
+DROP INDEX "interactions_ingredient_pair_unique";--> statement-breakpoint
+DROP INDEX "inventory_batches_inventory_batch_unique";--> statement-breakpoint
+DROP INDEX "medicine_ingredients_medicine_ingredient_unique";--> statement-breakpoint
+DROP INDEX "order_prescriptions_order_prescription_unique";--> statement-breakpoint
+DROP INDEX "orders_order_number_unique";--> statement-breakpoint
+DROP INDEX "payment_events_event_id_unique";--> statement-breakpoint
+DROP INDEX "payments_provider_order_id_unique";--> statement-breakpoint
+DROP INDEX "pharmacies_license_number_unique";--> statement-breakpoint
+DROP INDEX "prescription_items_order_item_id_unique";--> statement-breakpoint
+DROP INDEX "prescription_medicines_prescription_medicine_unique";--> statement-breakpoint
+DROP INDEX "refunds_provider_refund_id_unique";--> statement-breakpoint
+DROP INDEX "session_token_unique";--> statement-breakpoint
+DROP INDEX "stock_alerts_open_inventory_unique";--> statement-breakpoint
+DROP INDEX "stock_reservations_order_inventory_unique";--> statement-breakpoint
+DROP INDEX "user_email_unique";--> statement-breakpoint
+DROP INDEX "users_auth_user_id_unique";--> statement-breakpoint
+ALTER TABLE `refunds` ALTER COLUMN "provider_refund_id" TO "provider_refund_id" text;--> statement-breakpoint
+CREATE UNIQUE INDEX `delivery_order_id_unique` ON `delivery` (`order_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `ingredients_normalized_name_unique` ON `ingredients` (`normalized_name`);--> statement-breakpoint
+CREATE UNIQUE INDEX `interactions_ingredient_pair_unique` ON `interactions` (`ingredient_a_id`,`ingredient_b_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `inventory_batches_inventory_batch_unique` ON `inventory_batches` (`inventory_id`,`batch_number`);--> statement-breakpoint
+CREATE UNIQUE INDEX `medicine_ingredients_medicine_ingredient_unique` ON `medicine_ingredients` (`medicine_id`,`ingredient_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `order_prescriptions_order_prescription_unique` ON `order_prescriptions` (`order_id`,`prescription_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `orders_order_number_unique` ON `orders` (`order_number`);--> statement-breakpoint
+CREATE UNIQUE INDEX `payment_events_event_id_unique` ON `payment_events` (`event_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `payments_provider_order_id_unique` ON `payments` (`provider_order_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `pharmacies_license_number_unique` ON `pharmacies` (`license_number`);--> statement-breakpoint
+CREATE UNIQUE INDEX `prescription_items_order_item_id_unique` ON `prescription_items` (`order_item_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `prescription_medicines_prescription_medicine_unique` ON `prescription_medicines` (`prescription_id`,`medicine_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `refunds_provider_refund_id_unique` ON `refunds` (`provider_refund_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `session_token_unique` ON `session` (`token`);--> statement-breakpoint
+CREATE UNIQUE INDEX `stock_alerts_open_inventory_unique` ON `stock_alerts` (`inventory_id`) WHERE "stock_alerts"."status" = 'open';--> statement-breakpoint
+CREATE UNIQUE INDEX `stock_reservations_order_inventory_unique` ON `stock_reservations` (`order_id`,`inventory_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `user_email_unique` ON `user` (`email`);--> statement-breakpoint
+CREATE UNIQUE INDEX `users_auth_user_id_unique` ON `users` (`auth_user_id`);
\ No newline at end of file
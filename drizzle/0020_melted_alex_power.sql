@@ -0,0 +1,12 @@
+CREATE TABLE `order_stock_draws` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`order_id` integer NOT NULL,
+	`inventory_id` integer NOT NULL,
+	`batch_id` integer,
+	`quantity` integer NOT NULL,
+	`created_at` text NOT NULL,
+	`restocked_at` text,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`inventory_id`) REFERENCES `inventory`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`batch_id`) REFERENCES `inventory_batches`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,18 @@
+CREATE UNIQUE INDEX `users_linked_email_unique` ON `users` (lower("email")) WHERE "users"."auth_user_id" is not null;--> statement-breakpoint
+-- Link unclaimed profiles to accounts that verified the same email and have no profile yet
+UPDATE `users`
+SET `auth_user_id` = (
+  SELECT `user`.`id` FROM `user`
+  WHERE lower(`user`.`email`) = lower(`users`.`email`) AND `user`.`email_verified` = 1
+)
+WHERE `auth_user_id` IS NULL
+  -- The oldest profile for an address, as resolveDomainUser picks
+  AND `id` = (
+    SELECT min(`other`.`id`) FROM `users` AS `other`
+    WHERE lower(`other`.`email`) = lower(`users`.`email`) AND `other`.`auth_user_id` IS NULL
+  )
+  AND EXISTS (
+    SELECT 1 FROM `user`
+    WHERE lower(`user`.`email`) = lower(`users`.`email`) AND `user`.`email_verified` = 1
+      AND NOT EXISTS (SELECT 1 FROM `users` AS `linked` WHERE `linked`.`auth_user_id` = `user`.`id`)
+  );
@@ -1,11 +0,0 @@
-import { NextRequest, NextResponse } from "next/server";
-import { headers } from "next/headers";
-import { auth } from "@/lib/auth";
-
-export async function middleware(request: NextRequest) {
-  const session = await auth.api.getSession({ headers: await headers() });
-}
-
-export const config = {
-  matcher: ["/dashboard", "/orders", "/prescriptions", "/cart", "/checkout", "/account", "/track"],
-};
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { delivery, orders, users } from '@/db/schema';
+import { eq, and, like, asc } from 'drizzle-orm';
+import { orderAmountDue, roundCurrency } from '@/lib/orders';
+import { ApiError } from '@/lib/api-error';
+import { assertSelfOrAdmin, requireActor } from '@/lib/authz';
+
+// End-of-day cash report for a rider: cash expected from their delivered
+// cash-on-delivery orders against what they recorded as collected
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['delivery', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    // Riders see their own report; admins pass the rider to report on
+    const deliveryPersonId = searchParams.get('deliveryPersonId') ?? String(actor.userId);
+    const date = searchParams.get('date') ?? new Date().toISOString().slice(0, 10);
+
+    if (!deliveryPersonId || isNaN(parseInt(deliveryPersonId))) {
+      return NextResponse.json(
+        { error: 'Valid deliveryPersonId is required', code: 'INVALID_DELIVERY_PERSON_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      return NextResponse.json(
+        { error: 'date must be in YYYY-MM-DD format', code: 'INVALID_DATE' },
+        { status: 400 }
+      );
+    }
+
+    assertSelfOrAdmin(actor, parseInt(deliveryPersonId));
+
+    const rider = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, parseInt(deliveryPersonId)))
+      .limit(1);
+
+    if (rider.length === 0) {
+      return NextResponse.json(
+        { error: 'Delivery person not found', code: 'DELIVERY_PERSON_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const rows = await db
+      .select({ delivery, order: orders })
+      .from(delivery)
+      .innerJoin(orders, eq(delivery.orderId, orders.id))
+      .where(
+        and(
+          eq(delivery.deliveryPersonId, rider[0].id),
+          eq(delivery.status, 'delivered'),
+          eq(orders.paymentMethod, 'cod'),
+          like(delivery.deliveredAt, `${date}%`)
+        )
+      )
+      .orderBy(asc(delivery.deliveredAt));
+
+    const deliveries = rows.map(({ delivery: entry, order }) => {
+      const expected = orderAmountDue(order);
+      const collected = entry.cashCollected ?? 0;
+      return {
+        deliveryId: entry.id,
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        deliveredAt: entry.deliveredAt,
+        expected,
+        collected,
+        difference: roundCurrency(collected - expected),
+        cashRecorded: entry.cashCollected !== null,
+      };
+    });
+
+    const expectedTotal = roundCurrency(deliveries.reduce((sum, entry) => sum + entry.expected, 0));
+    const collectedTotal = roundCurrency(deliveries.reduce((sum, entry) => sum + entry.collected, 0));
+
+    return NextResponse.json(
+      {
+        deliveryPersonId: rider[0].id,
+        date,
+        deliveries,
+        totals: {
+          deliveries: deliveries.length,
+          expected: expectedTotal,
+          collected: collectedTotal,
+          difference: roundCurrency(collectedTotal - expectedTotal),
+          unrecorded: deliveries.filter((entry) => !entry.cashRecorded).length,
+          mismatched: deliveries.filter((entry) => entry.difference !== 0).length,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { delivery, orders, users } from '@/db/schema';
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { markCashCollected } from '@/lib/payments';
+import { ApiError } from '@/lib/api-error';
+import { assertOrderAccess, assertPharmacyAccess, forbidden, orderScope, requireActor } from '@/lib/authz';
 
 const VALID_STATUSES = ['assigned', 'accepted', 'picked_up', 'on_the_way', 'delivered', 'failed'] as const;
 type DeliveryStatus = typeof VALID_STATUSES[number];
@@ -20,6 +23,8 @@ function validateLongitude(lng: number): boolean {
 
 export async function GET(request: NextRequest) {
   try {
+    const actor = await requireActor(request);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -45,6 +50,13 @@ export async function GET(request: NextRequest) {
         );
       }
 
+      const [order] = await db
+        .select()
+        .from(orders)
+        .where(eq(orders.id, result[0].orderId))
+        .limit(1);
+      await assertOrderAccess(actor, order);
+
       return NextResponse.json(result[0], { status: 200 });
     }
 
@@ -57,9 +69,16 @@ export async function GET(request: NextRequest) {
 
     let query = db.select().from(delivery);
 
-    // Build where conditions
+    // Build where conditions, limited to deliveries of orders the caller may see
     const conditions = [];
 
+    const scope = orderScope(actor);
+    if (scope) {
+      conditions.push(
+        inArray(delivery.orderId, db.select({ id: orders.id }).from(orders).where(scope))
+      );
+    }
+
     if (orderId) {
       const orderIdNum = parseInt(orderId);
       if (!isNaN(orderIdNum)) {
@@ -99,6 +118,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(results, { status: 200 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('GET error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -109,6 +131,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
     const body = await request.json();
     const {
       orderId,
@@ -179,6 +203,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Pharmacies arrange delivery for their own orders
+    assertPharmacyAccess(actor, orderExists[0].pharmacyId);
+
     // Validate deliveryPersonId exists if provided
     if (deliveryPersonId) {
       const userExists = await db
@@ -252,6 +279,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(newDelivery[0], { status: 201 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('POST error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -262,6 +292,8 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['pharmacy', 'delivery', 'admin']);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -286,6 +318,20 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    const deliveryOrder = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, existing[0].orderId))
+      .limit(1);
+
+    // Riders update only deliveries assigned to them; pharmacies those of their orders
+    if (actor.role === 'delivery' && existing[0].deliveryPersonId !== actor.userId) {
+      throw forbidden();
+    }
+    if (actor.role === 'pharmacy') {
+      assertPharmacyAccess(actor, deliveryOrder[0]?.pharmacyId);
+    }
+
     const body = await request.json();
     const {
       deliveryPersonId,
@@ -295,9 +341,14 @@ export async function PUT(request: NextRequest) {
       assignedAt,
       pickedUpAt,
       deliveredAt,
+      cashCollected,
       notes
     } = body;
 
+    if (actor.role === 'delivery' && (deliveryPersonId !== undefined || assignedAt !== undefined)) {
+      throw forbidden('Riders cannot reassign deliveries');
+    }
+
     const updates: any = {};
 
     // Validate and add status
@@ -390,14 +441,66 @@ export async function PUT(request: NextRequest) {
       updates.notes = notes ? notes.trim() : null;
     }
 
-    const updated = await db
-      .update(delivery)
-      .set(updates)
-      .where(eq(delivery.id, parseInt(id)))
-      .returning();
+    // Cash-on-delivery: the rider records the cash received at the door
+    const recordsCash = cashCollected !== undefined && cashCollected !== null;
+    const completesDelivery = status === 'delivered' && existing[0].status !== 'delivered';
 
-    return NextResponse.json(updated[0], { status: 200 });
+    const order = deliveryOrder[0] ?? null;
+
+    if (recordsCash) {
+      const amount = parseFloat(cashCollected);
+      if (isNaN(amount) || amount < 0) {
+        return NextResponse.json(
+          { error: 'cashCollected must be a non-negative number', code: 'INVALID_CASH_COLLECTED' },
+          { status: 400 }
+        );
+      }
+
+      if (order?.paymentMethod !== 'cod') {
+        return NextResponse.json(
+          { error: 'Cash can only be collected for cash-on-delivery orders', code: 'NOT_COD_ORDER' },
+          { status: 400 }
+        );
+      }
+
+      updates.cashCollected = amount;
+      updates.cashCollectedAt = new Date().toISOString();
+    }
+
+    if (
+      completesDelivery &&
+      order?.paymentMethod === 'cod' &&
+      !recordsCash &&
+      existing[0].cashCollected === null
+    ) {
+      return NextResponse.json(
+        {
+          error: 'cashCollected is required to deliver a cash-on-delivery order',
+          code: 'CASH_COLLECTION_REQUIRED'
+        },
+        { status: 400 }
+      );
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const [updatedDelivery] = await tx
+        .update(delivery)
+        .set(updates)
+        .where(eq(delivery.id, parseInt(id)))
+        .returning();
+
+      if (recordsCash && order) {
+        await markCashCollected(tx, order, updates.cashCollected);
+      }
+
+      return updatedDelivery;
+    });
+
+    return NextResponse.json(updated, { status: 200 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('PUT error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -408,6 +511,8 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    await requireActor(request, ['admin']);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -445,6 +550,9 @@ export async function DELETE(request: NextRequest) {
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('DELETE error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { delivery, orders, users, pharmacies } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertOrderAccess, requireActor } from '@/lib/authz';
 
 // Helper function to calculate distance between two coordinates using Haversine formula
 function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
@@ -44,6 +46,8 @@ function calculateProgress(
 
 export async function GET(request: NextRequest) {
   try {
+    const actor = await requireActor(request);
+
     const searchParams = request.nextUrl.searchParams;
     const orderId = searchParams.get('orderId');
     const orderNumber = searchParams.get('orderNumber');
@@ -92,6 +96,8 @@ export async function GET(request: NextRequest) {
 
     const order = orderResult[0];
 
+    await assertOrderAccess(actor, order);
+
     // Fetch delivery details
     const deliveryResult = await db.select()
       .from(delivery)
@@ -267,6 +273,9 @@ export async function GET(request: NextRequest) {
     return NextResponse.json(response, { status: 200 });
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('GET delivery tracking error:', error);
     return NextResponse.json(
       { 
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { medicines, stockAlerts } from '@/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertPharmacyAccess, requireActor } from '@/lib/authz';
+import { STOCK_ALERT_STATUSES } from '@/lib/stock-alerts';
+
+// Low-stock alerts of a pharmacy, newest first; open alerts by default
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    const pharmacyId = searchParams.get('pharmacyId');
+    const status = searchParams.get('status') ?? 'open';
+    const limit = Math.min(parseInt(searchParams.get('limit') ?? '50'), 100);
+    const offset = parseInt(searchParams.get('offset') ?? '0');
+
+    if (!pharmacyId || isNaN(parseInt(pharmacyId))) {
+      return NextResponse.json(
+        { error: 'Valid pharmacyId is required', code: 'INVALID_PHARMACY_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!STOCK_ALERT_STATUSES.includes(status as typeof STOCK_ALERT_STATUSES[number])) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${STOCK_ALERT_STATUSES.join(', ')}`, code: 'INVALID_STATUS' },
+        { status: 400 }
+      );
+    }
+
+    assertPharmacyAccess(actor, parseInt(pharmacyId));
+
+    const alerts = await db
+      .select({ alert: stockAlerts, medicineName: medicines.name })
+      .from(stockAlerts)
+      .innerJoin(medicines, eq(stockAlerts.medicineId, medicines.id))
+      .where(and(eq(stockAlerts.pharmacyId, parseInt(pharmacyId)), eq(stockAlerts.status, status)))
+      .orderBy(desc(stockAlerts.createdAt), desc(stockAlerts.id))
+      .limit(limit)
+      .offset(offset);
+
+    return NextResponse.json(
+      alerts.map(({ alert, medicineName }) => ({ ...alert, medicineName })),
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { ApiError } from '@/lib/api-error';
+import { requireSchedulerOrAdmin } from '@/lib/authz';
+import { scanLowStock } from '@/lib/stock-alerts';
+
+// Raise and resolve low-stock alerts across all pharmacies, or one with
+// ?pharmacyId=. Meant to be run periodically by a scheduler sending
+// `Authorization: Bearer $CRON_SECRET`; admins can also trigger it.
+export async function POST(request: NextRequest) {
+  try {
+    await requireSchedulerOrAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const pharmacyId = searchParams.get('pharmacyId');
+
+    if (pharmacyId !== null && isNaN(parseInt(pharmacyId))) {
+      return NextResponse.json(
+        { error: 'Valid pharmacyId is required', code: 'INVALID_PHARMACY_ID' },
+        { status: 400 }
+      );
+    }
+
+    const result = await db.transaction((tx) =>
+      scanLowStock(tx, pharmacyId === null ? undefined : parseInt(pharmacyId))
+    );
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
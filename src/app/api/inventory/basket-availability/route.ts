@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { medicines } from '@/db/schema';
+import { inArray } from 'drizzle-orm';
+import { findBasketAvailability, type BasketLine } from '@/lib/basket-sourcing';
+import { validateLatitude, validateLongitude } from '@/lib/delivery-estimate';
+
+const MAX_BASKET_ITEMS = 50;
+
+// Sourcing options for a whole cart near the customer: the cheapest single
+// pharmacy that can fill it, and the smallest split across pharmacies
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { items, latitude, longitude, radius = 10 } = body;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return NextResponse.json(
+        { error: 'items must be a non-empty array', code: 'MISSING_ITEMS' },
+        { status: 400 }
+      );
+    }
+
+    if (items.length > MAX_BASKET_ITEMS) {
+      return NextResponse.json(
+        { error: `A basket can have at most ${MAX_BASKET_ITEMS} items`, code: 'TOO_MANY_ITEMS' },
+        { status: 400 }
+      );
+    }
+
+    const userLatitude = parseFloat(latitude);
+    if (isNaN(userLatitude) || !validateLatitude(userLatitude)) {
+      return NextResponse.json(
+        { error: 'latitude must be between -90 and 90', code: 'INVALID_LATITUDE' },
+        { status: 400 }
+      );
+    }
+
+    const userLongitude = parseFloat(longitude);
+    if (isNaN(userLongitude) || !validateLongitude(userLongitude)) {
+      return NextResponse.json(
+        { error: 'longitude must be between -180 and 180', code: 'INVALID_LONGITUDE' },
+        { status: 400 }
+      );
+    }
+
+    const searchRadius = parseFloat(radius);
+    if (isNaN(searchRadius) || searchRadius <= 0 || searchRadius > 50) {
+      return NextResponse.json(
+        { error: 'Radius must be a positive number not exceeding 50 km', code: 'INVALID_RADIUS' },
+        { status: 400 }
+      );
+    }
+
+    // Validate cart lines, merging repeated medicines into a single line
+    const linesByMedicine = new Map<number, BasketLine>();
+    for (const item of items) {
+      const medicineId = parseInt(item?.medicineId);
+      const quantity = parseInt(item?.quantity);
+
+      if (isNaN(medicineId) || medicineId <= 0) {
+        return NextResponse.json(
+          { error: 'Each item requires a valid medicineId', code: 'INVALID_MEDICINE_ID' },
+          { status: 400 }
+        );
+      }
+
+      if (isNaN(quantity) || quantity <= 0) {
+        return NextResponse.json(
+          { error: 'Each item requires a positive integer quantity', code: 'INVALID_QUANTITY' },
+          { status: 400 }
+        );
+      }
+
+      const existing = linesByMedicine.get(medicineId);
+      linesByMedicine.set(medicineId, {
+        medicineId,
+        quantity: (existing?.quantity ?? 0) + quantity,
+      });
+    }
+    const lines = [...linesByMedicine.values()];
+
+    // Check all medicines exist
+    const medicineRecords = await db
+      .select({ id: medicines.id })
+      .from(medicines)
+      .where(inArray(medicines.id, lines.map((line) => line.medicineId)));
+
+    const missingMedicine = lines.find(
+      (line) => !medicineRecords.some((medicine) => medicine.id === line.medicineId)
+    );
+    if (missingMedicine) {
+      return NextResponse.json(
+        { error: 'Medicine not found', code: 'MEDICINE_NOT_FOUND', medicineId: missingMedicine.medicineId },
+        { status: 404 }
+      );
+    }
+
+    const availability = await findBasketAvailability(db, lines, {
+      latitude: userLatitude,
+      longitude: userLongitude,
+      radius: searchRadius,
+    });
+
+    return NextResponse.json(
+      {
+        items: lines,
+        ...availability,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { inventory, inventoryBatches } from '@/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertPharmacyAccess, requireActor } from '@/lib/authz';
+import { isValidIsoDate, receiveBatch, todayIso, writeOffBatch } from '@/lib/inventory-batches';
+
+async function findInventory(id: number) {
+  const record = await db
+    .select()
+    .from(inventory)
+    .where(eq(inventory.id, id))
+    .limit(1);
+
+  if (record.length === 0) {
+    throw new ApiError('Inventory not found', 'INVENTORY_NOT_FOUND', 404);
+  }
+  return record[0];
+}
+
+// Batches of an inventory item, earliest expiry first
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    const inventoryId = searchParams.get('inventoryId');
+
+    if (!inventoryId || isNaN(parseInt(inventoryId))) {
+      return NextResponse.json(
+        { error: 'Valid inventoryId is required', code: 'INVALID_INVENTORY_ID' },
+        { status: 400 }
+      );
+    }
+
+    const stock = await findInventory(parseInt(inventoryId));
+    assertPharmacyAccess(actor, stock.pharmacyId);
+
+    const batches = await db
+      .select()
+      .from(inventoryBatches)
+      .where(eq(inventoryBatches.inventoryId, stock.id))
+      .orderBy(asc(inventoryBatches.expiryDate), asc(inventoryBatches.id));
+
+    const today = todayIso();
+    const trackedQuantity = batches.reduce((sum, batch) => sum + batch.quantity, 0);
+    const expiredQuantity = batches
+      .filter((batch) => batch.expiryDate < today)
+      .reduce((sum, batch) => sum + batch.quantity, 0);
+
+    return NextResponse.json(
+      {
+        inventoryId: stock.id,
+        quantity: stock.quantity,
+        sellableQuantity: stock.quantity - expiredQuantity,
+        // Units received before batch tracking, dispensed after all batches
+        untrackedQuantity: Math.max(stock.quantity - trackedQuantity, 0),
+        batches: batches.map((batch) => ({ ...batch, expired: batch.expiryDate < today })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// Receive a batch into an inventory item
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
+    const body = await request.json();
+    const { inventoryId, batchNumber, expiryDate, quantity, purchasePrice } = body;
+
+    if (!inventoryId || isNaN(parseInt(inventoryId))) {
+      return NextResponse.json(
+        { error: 'Valid inventoryId is required', code: 'INVALID_INVENTORY_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!batchNumber || typeof batchNumber !== 'string' || !batchNumber.trim()) {
+      return NextResponse.json(
+        { error: 'batchNumber is required', code: 'MISSING_BATCH_NUMBER' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidIsoDate(expiryDate)) {
+      return NextResponse.json(
+        { error: 'expiryDate must be a date in YYYY-MM-DD format', code: 'INVALID_EXPIRY_DATE' },
+        { status: 400 }
+      );
+    }
+
+    if (expiryDate < todayIso()) {
+      return NextResponse.json(
+        { error: 'Cannot receive a batch that has already expired', code: 'BATCH_EXPIRED' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(parseInt(quantity)) || parseInt(quantity) <= 0) {
+      return NextResponse.json(
+        { error: 'quantity must be a positive integer', code: 'INVALID_QUANTITY' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(parseFloat(purchasePrice)) || parseFloat(purchasePrice) < 0) {
+      return NextResponse.json(
+        { error: 'purchasePrice must be a non-negative number', code: 'INVALID_PURCHASE_PRICE' },
+        { status: 400 }
+      );
+    }
+
+    const stock = await findInventory(parseInt(inventoryId));
+    assertPharmacyAccess(actor, stock.pharmacyId);
+
+    const batch = await db.transaction((tx) =>
+      receiveBatch(tx, stock.id, {
+        batchNumber: batchNumber.trim(),
+        expiryDate,
+        quantity: parseInt(quantity),
+        purchasePrice: parseFloat(purchasePrice),
+      })
+    );
+
+    return NextResponse.json(batch, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// Write off a batch (expired, recalled or damaged), removing its units from stock
+export async function DELETE(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json(
+        { error: 'Valid ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db
+      .select({ batch: inventoryBatches, pharmacyId: inventory.pharmacyId })
+      .from(inventoryBatches)
+      .innerJoin(inventory, eq(inventoryBatches.inventoryId, inventory.id))
+      .where(eq(inventoryBatches.id, parseInt(id)))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return NextResponse.json(
+        { error: 'Batch not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    assertPharmacyAccess(actor, existing[0].pharmacyId);
+
+    const deleted = await db.transaction((tx) => writeOffBatch(tx, existing[0].batch.id));
+
+    return NextResponse.json(
+      {
+        message: 'Batch written off successfully',
+        deleted: deleted ?? existing[0].batch,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { inventory, pharmacies, medicines } from '@/db/schema';
 import { eq, and, gt } from 'drizzle-orm';
+import { freeQuantity, reservedQuantity } from '@/lib/stock-reservations';
 
 // Haversine formula to calculate distance between two coordinates (in km)
 function calculateDistance(
@@ -143,13 +144,14 @@ export async function GET(request: NextRequest) {
     const medicine = medicineRecord[0];
 
     // Query inventory with joins to pharmacies and medicines
-    // Filter: isAvailable = true, quantity > 0, pharmacies.isActive = true
+    // Filter: isAvailable = true, free (unexpired, unreserved) quantity > 0, pharmacies.isActive = true
     const inventoryRecords = await db
       .select({
         inventoryId: inventory.id,
         pharmacyId: inventory.pharmacyId,
         medicineId: inventory.medicineId,
-        quantity: inventory.quantity,
+        quantity: freeQuantity(),
+        reservedQuantity: reservedQuantity(),
         price: inventory.price,
         discountPercentage: inventory.discountPercentage,
         isAvailable: inventory.isAvailable,
@@ -168,7 +170,7 @@ export async function GET(request: NextRequest) {
         and(
           eq(inventory.medicineId, medicineId),
           eq(inventory.isAvailable, true),
-          gt(inventory.quantity, 0),
+          gt(freeQuantity(), 0),
           eq(pharmacies.isActive, true)
         )
       );
@@ -182,7 +184,9 @@ export async function GET(request: NextRequest) {
       latitude: number;
       longitude: number;
       rating: number;
+      // Units free to sell; `reservedQuantity` more are held for unpaid orders
       quantity: number;
+      reservedQuantity: number;
       price: number;
       discountPercentage: number;
       finalPrice: number;
@@ -204,6 +208,7 @@ export async function GET(request: NextRequest) {
           longitude: record.longitude,
           rating: record.rating || 0,
           quantity: record.quantity,
+          reservedQuantity: record.reservedQuantity,
           price: record.price,
           discountPercentage: record.discountPercentage || 0,
           finalPrice: parseFloat(finalPrice.toFixed(2)),
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { ApiError } from '@/lib/api-error';
+import { assertPharmacyAccess, requireActor } from '@/lib/authz';
+import { addDays, expiringBatches, todayIso } from '@/lib/inventory-batches';
+import { roundCurrency } from '@/lib/orders';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Batches of a pharmacy expiring within `days`, including those already
+// expired but not yet written off
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    const pharmacyId = searchParams.get('pharmacyId');
+    const daysParam = searchParams.get('days') ?? '30';
+
+    if (!pharmacyId || isNaN(parseInt(pharmacyId))) {
+      return NextResponse.json(
+        { error: 'Valid pharmacyId is required', code: 'INVALID_PHARMACY_ID' },
+        { status: 400 }
+      );
+    }
+
+    const days = parseInt(daysParam);
+    if (isNaN(days) || days < 0 || days > 365) {
+      return NextResponse.json(
+        { error: 'days must be an integer between 0 and 365', code: 'INVALID_DAYS' },
+        { status: 400 }
+      );
+    }
+
+    assertPharmacyAccess(actor, parseInt(pharmacyId));
+
+    const rows = await expiringBatches(db, parseInt(pharmacyId), days);
+    const today = todayIso();
+
+    const batches = rows.map(({ batch, medicineId, medicineName, brand }) => ({
+      ...batch,
+      medicineId,
+      medicineName,
+      brand,
+      expired: batch.expiryDate < today,
+      daysToExpiry: Math.round((Date.parse(batch.expiryDate) - Date.parse(today)) / DAY_MS),
+      costValue: roundCurrency(batch.quantity * batch.purchasePrice),
+    }));
+    const expired = batches.filter((batch) => batch.expired);
+
+    return NextResponse.json(
+      {
+        pharmacyId: parseInt(pharmacyId),
+        days,
+        until: addDays(today, days),
+        batches,
+        totals: {
+          batches: batches.length,
+          quantity: batches.reduce((sum, batch) => sum + batch.quantity, 0),
+          costValue: roundCurrency(batches.reduce((sum, batch) => sum + batch.costValue, 0)),
+          expiredQuantity: expired.reduce((sum, batch) => sum + batch.quantity, 0),
+          expiredCostValue: roundCurrency(expired.reduce((sum, batch) => sum + batch.costValue, 0)),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { ApiError } from '@/lib/api-error';
+import { assertPharmacyAccess, requireActor } from '@/lib/authz';
+import { exportInventoryCsv } from '@/lib/inventory-csv';
+import { todayIso } from '@/lib/inventory-batches';
+
+// A pharmacy's stock as CSV, in the format accepted by /api/inventory/import
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    const pharmacyId = searchParams.get('pharmacyId');
+
+    if (!pharmacyId || isNaN(parseInt(pharmacyId))) {
+      return NextResponse.json(
+        { error: 'Valid pharmacyId is required', code: 'INVALID_PHARMACY_ID' },
+        { status: 400 }
+      );
+    }
+
+    assertPharmacyAccess(actor, parseInt(pharmacyId));
+
+    const csv = await exportInventoryCsv(db, parseInt(pharmacyId));
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="inventory-${parseInt(pharmacyId)}-${todayIso()}.csv"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
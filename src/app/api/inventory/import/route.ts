@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { pharmacies } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertPharmacyAccess, requireActor } from '@/lib/authz';
+import { applyInventoryImport, planInventoryImport, summarizeImportPlan } from '@/lib/inventory-csv';
+
+const MAX_CSV_BYTES = 1024 * 1024;
+
+// The CSV comes either as a `file` field of a multipart form or as the raw body
+async function readCsv(request: NextRequest): Promise<string> {
+  const contentType = request.headers.get('content-type') ?? '';
+
+  if (contentType.startsWith('multipart/form-data')) {
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!file || typeof file === 'string') {
+      throw new ApiError('A CSV file is required in the "file" field', 'MISSING_FILE');
+    }
+    if (file.size > MAX_CSV_BYTES) {
+      throw new ApiError('CSV file must be at most 1 MB', 'FILE_TOO_LARGE', 413);
+    }
+    return file.text();
+  }
+
+  const text = await request.text();
+  if (Buffer.byteLength(text) > MAX_CSV_BYTES) {
+    throw new ApiError('CSV file must be at most 1 MB', 'FILE_TOO_LARGE', 413);
+  }
+  return text;
+}
+
+// Bulk upsert a pharmacy's stock from a spreadsheet export (see
+// lib/inventory-csv for the format). With dryRun=true nothing is written and
+// the response lists what would change along with any row errors; a real
+// import is all-or-nothing and is rejected while any row is invalid.
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    const pharmacyId = searchParams.get('pharmacyId');
+    const dryRun = searchParams.get('dryRun') === 'true';
+
+    if (!pharmacyId || isNaN(parseInt(pharmacyId))) {
+      return NextResponse.json(
+        { error: 'Valid pharmacyId is required', code: 'INVALID_PHARMACY_ID' },
+        { status: 400 }
+      );
+    }
+
+    assertPharmacyAccess(actor, parseInt(pharmacyId));
+
+    const pharmacy = await db
+      .select({ id: pharmacies.id })
+      .from(pharmacies)
+      .where(eq(pharmacies.id, parseInt(pharmacyId)))
+      .limit(1);
+
+    if (pharmacy.length === 0) {
+      return NextResponse.json(
+        { error: 'Pharmacy not found', code: 'PHARMACY_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const csv = await readCsv(request);
+
+    if (dryRun) {
+      const plan = await planInventoryImport(db, pharmacy[0].id, csv);
+      return NextResponse.json(
+        {
+          dryRun: true,
+          valid: plan.errors.length === 0,
+          summary: summarizeImportPlan(plan),
+          errors: plan.errors,
+          items: plan.items,
+        },
+        { status: 200 }
+      );
+    }
+
+    // Plan and write in one transaction so the plan matches what is written
+    const result = await db.transaction(async (tx) => {
+      const plan = await planInventoryImport(tx, pharmacy[0].id, csv);
+      if (plan.errors.length > 0) {
+        return { errors: plan.errors };
+      }
+      return { summary: await applyInventoryImport(tx, pharmacy[0].id, plan) };
+    });
+
+    if (result.errors) {
+      return NextResponse.json(
+        { error: 'CSV has invalid rows; nothing was imported', code: 'INVALID_ROWS', errors: result.errors },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(
+      { dryRun: false, summary: result.summary },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { ApiError } from '@/lib/api-error';
+import { assertPharmacyAccess, requireActor } from '@/lib/authz';
+import { reorderSuggestions } from '@/lib/stock-alerts';
+
+// Items a pharmacy should reorder and how many, from the demand of the last
+// `weeks` (default 4) sized to last `coverDays` (default 14)
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    const pharmacyId = searchParams.get('pharmacyId');
+    const weeks = parseInt(searchParams.get('weeks') ?? '4');
+    const coverDays = parseInt(searchParams.get('coverDays') ?? '14');
+
+    if (!pharmacyId || isNaN(parseInt(pharmacyId))) {
+      return NextResponse.json(
+        { error: 'Valid pharmacyId is required', code: 'INVALID_PHARMACY_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(weeks) || weeks < 1 || weeks > 52) {
+      return NextResponse.json(
+        { error: 'weeks must be an integer between 1 and 52', code: 'INVALID_WEEKS' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(coverDays) || coverDays < 1 || coverDays > 90) {
+      return NextResponse.json(
+        { error: 'coverDays must be an integer between 1 and 90', code: 'INVALID_COVER_DAYS' },
+        { status: 400 }
+      );
+    }
+
+    assertPharmacyAccess(actor, parseInt(pharmacyId));
+
+    const suggestions = await reorderSuggestions(db, parseInt(pharmacyId), { weeks, coverDays });
+
+    return NextResponse.json(
+      {
+        pharmacyId: parseInt(pharmacyId),
+        weeks,
+        coverDays,
+        suggestions,
+        count: suggestions.length,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { ApiError } from '@/lib/api-error';
+import { requireSchedulerOrAdmin } from '@/lib/authz';
+import { sweepExpiredReservations } from '@/lib/stock-reservations';
+
+// Release stock reservations of unpaid orders that have expired. Meant to be
+// called every few minutes by a scheduler sending `Authorization: Bearer
+// $CRON_SECRET`; admins can also trigger it.
+export async function POST(request: NextRequest) {
+  try {
+    await requireSchedulerOrAdmin(request);
+
+    const released = await sweepExpiredReservations(db);
+
+    return NextResponse.json({ released }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
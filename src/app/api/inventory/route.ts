@@ -1,7 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { inventory, pharmacies, medicines } from '@/db/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { inventory, inventoryBatches, pharmacies, medicines } from '@/db/schema';
+import { eq, and, sql, getTableColumns } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertPharmacyAccess, requireActor } from '@/lib/authz';
+import { freeQuantity, reservedQuantity } from '@/lib/stock-reservations';
+
+// Inventory rows with the units held for unpaid online orders and the units
+// still free to sell (unexpired, unreserved)
+function selectStock() {
+  return db
+    .select({
+      ...getTableColumns(inventory),
+      reservedQuantity: reservedQuantity(),
+      freeQuantity: freeQuantity(),
+    })
+    .from(inventory);
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,9 +32,7 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      const record = await db
-        .select()
-        .from(inventory)
+      const record = await selectStock()
         .where(eq(inventory.id, parseInt(id)))
         .limit(1);
 
@@ -40,7 +53,7 @@ export async function GET(request: NextRequest) {
     const medicineId = searchParams.get('medicineId');
     const isAvailable = searchParams.get('isAvailable');
 
-    let query = db.select().from(inventory);
+    let query = selectStock();
 
     // Build filter conditions
     const conditions = [];
@@ -89,8 +102,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
     const body = await request.json();
-    const { pharmacyId, medicineId, quantity, price, discountPercentage, isAvailable } = body;
+    const { pharmacyId, medicineId, quantity, price, discountPercentage, isAvailable, reorderThreshold } = body;
 
     // Validate required fields
     if (!pharmacyId) {
@@ -164,6 +179,19 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Validate reorderThreshold if provided
+    if (reorderThreshold !== undefined && reorderThreshold !== null) {
+      if (isNaN(parseInt(reorderThreshold)) || parseInt(reorderThreshold) < 0) {
+        return NextResponse.json(
+          { error: 'reorderThreshold must be a non-negative integer', code: 'INVALID_REORDER_THRESHOLD' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Pharmacies manage only their own stock
+    assertPharmacyAccess(actor, parseInt(pharmacyId));
+
     // Basic validation: Check if pharmacy exists
     const pharmacyExists = await db
       .select()
@@ -200,6 +228,7 @@ export async function POST(request: NextRequest) {
       price: parseFloat(price),
       discountPercentage: discountPercentage !== undefined ? parseFloat(discountPercentage) : 0,
       isAvailable: isAvailable !== undefined ? Boolean(isAvailable) : true,
+      reorderThreshold: reorderThreshold !== undefined && reorderThreshold !== null ? parseInt(reorderThreshold) : null,
       lastUpdated: new Date().toISOString(),
     };
 
@@ -210,6 +239,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(newInventory[0], { status: 201 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('POST error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -220,6 +252,8 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -245,8 +279,10 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    assertPharmacyAccess(actor, existing[0].pharmacyId);
+
     const body = await request.json();
-    const { quantity, price, discountPercentage, isAvailable } = body;
+    const { quantity, price, discountPercentage, isAvailable, reorderThreshold } = body;
 
     // Prepare update data
     const updates: any = {
@@ -261,6 +297,22 @@ export async function PUT(request: NextRequest) {
           { status: 400 }
         );
       }
+
+      // Batch units can only leave stock through orders or a batch write-off
+      const [tracked] = await db
+        .select({ quantity: sql<number>`coalesce(sum(${inventoryBatches.quantity}), 0)` })
+        .from(inventoryBatches)
+        .where(eq(inventoryBatches.inventoryId, existing[0].id));
+
+      if (parseInt(quantity) < tracked.quantity) {
+        return NextResponse.json(
+          {
+            error: `quantity cannot be less than the ${tracked.quantity} units held in batches`,
+            code: 'INVALID_QUANTITY'
+          },
+          { status: 400 }
+        );
+      }
       updates.quantity = parseInt(quantity);
     }
 
@@ -292,6 +344,17 @@ export async function PUT(request: NextRequest) {
       updates.isAvailable = Boolean(isAvailable);
     }
 
+    // Validate and add reorderThreshold if provided; null turns alerts off
+    if (reorderThreshold !== undefined) {
+      if (reorderThreshold !== null && (isNaN(parseInt(reorderThreshold)) || parseInt(reorderThreshold) < 0)) {
+        return NextResponse.json(
+          { error: 'reorderThreshold must be a non-negative integer or null', code: 'INVALID_REORDER_THRESHOLD' },
+          { status: 400 }
+        );
+      }
+      updates.reorderThreshold = reorderThreshold === null ? null : parseInt(reorderThreshold);
+    }
+
     const updated = await db
       .update(inventory)
       .set(updates)
@@ -300,6 +363,9 @@ export async function PUT(request: NextRequest) {
 
     return NextResponse.json(updated[0], { status: 200 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('PUT error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -310,6 +376,8 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -335,6 +403,8 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    assertPharmacyAccess(actor, existing[0].pharmacyId);
+
     const deleted = await db
       .delete(inventory)
       .where(eq(inventory.id, parseInt(id)))
@@ -348,6 +418,9 @@ export async function DELETE(request: NextRequest) {
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('DELETE error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
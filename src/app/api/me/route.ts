@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { ApiError } from '@/lib/api-error';
+import { isUserRole, ownedPharmacyIds } from '@/lib/authz';
+import { resolveDomainUser } from '@/lib/user-accounts';
+
+// The signed-in account merged with its MediFast profile
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      throw new ApiError('Authentication required', 'UNAUTHENTICATED', 401);
+    }
+
+    const profile = await resolveDomainUser(session.user);
+    if (!profile || !isUserRole(profile.role)) {
+      return NextResponse.json(
+        { error: 'No MediFast profile for this account', code: 'PROFILE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        id: profile.id,
+        authUserId: session.user.id,
+        name: profile.name,
+        email: session.user.email,
+        emailVerified: session.user.emailVerified,
+        image: session.user.image ?? null,
+        phone: profile.phone,
+        role: profile.role,
+        address: profile.address,
+        latitude: profile.latitude,
+        longitude: profile.longitude,
+        pharmacyIds: await ownedPharmacyIds(profile),
+        createdAt: profile.createdAt,
+        updatedAt: profile.updatedAt,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { medicines } from '@/db/schema';
-import { eq, ne, and } from 'drizzle-orm';
+import { eq, inArray } from 'drizzle-orm';
+import {
+  doseSetKey,
+  medicineIngredientDoses,
+  medicinesWithIngredients,
+  sharedIngredientCount,
+  type IngredientDose,
+} from '@/lib/ingredients';
+import {
+  findLocalOffers,
+  substituteAvailability,
+  type Location,
+  type SubstituteAvailability,
+} from '@/lib/local-stock';
+import { roundCurrency } from '@/lib/orders';
+import { parseSaltComposition } from '@/lib/salt-parser';
+
+type MatchType = 'exact' | 'partial';
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const medicineIdParam = searchParams.get('medicineId');
     const saltCompositionParam = searchParams.get('saltComposition');
+    const includePartial = searchParams.get('includePartial');
+    const latitudeParam = searchParams.get('latitude');
+    const longitudeParam = searchParams.get('longitude');
+    const radiusParam = searchParams.get('radius');
     const limit = Math.min(parseInt(searchParams.get('limit') ?? '10'), 50);
     const offset = parseInt(searchParams.get('offset') ?? '0');
 
     // Validate that at least one parameter is provided
     if (!medicineIdParam && !saltCompositionParam) {
       return NextResponse.json(
-        { 
+        {
           error: 'Either medicineId or saltComposition parameter is required',
           code: 'MISSING_REQUIRED_PARAMETER'
         },
@@ -22,9 +43,69 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (includePartial && includePartial !== 'true' && includePartial !== 'false') {
+      return NextResponse.json(
+        {
+          error: 'Invalid includePartial parameter. Must be either true or false',
+          code: 'INVALID_INCLUDE_PARTIAL'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Optional customer location to check local stock and savings
+    let location: Location | null = null;
+    if (latitudeParam || longitudeParam || radiusParam) {
+      if (!latitudeParam || !longitudeParam) {
+        return NextResponse.json(
+          {
+            error: 'Latitude and longitude must be provided together',
+            code: 'MISSING_COORDINATES'
+          },
+          { status: 400 }
+        );
+      }
+
+      const latitude = parseFloat(latitudeParam);
+      const longitude = parseFloat(longitudeParam);
+      const radius = radiusParam ? parseFloat(radiusParam) : 10;
+
+      if (isNaN(latitude) || latitude < -90 || latitude > 90) {
+        return NextResponse.json(
+          {
+            error: 'Latitude must be a valid number between -90 and 90',
+            code: 'INVALID_LATITUDE'
+          },
+          { status: 400 }
+        );
+      }
+
+      if (isNaN(longitude) || longitude < -180 || longitude > 180) {
+        return NextResponse.json(
+          {
+            error: 'Longitude must be a valid number between -180 and 180',
+            code: 'INVALID_LONGITUDE'
+          },
+          { status: 400 }
+        );
+      }
+
+      if (isNaN(radius) || radius <= 0 || radius > 50) {
+        return NextResponse.json(
+          {
+            error: 'Radius must be a positive number not exceeding 50 km',
+            code: 'INVALID_RADIUS'
+          },
+          { status: 400 }
+        );
+      }
+
+      location = { latitude, longitude, radius };
+    }
+
     let saltComposition: string;
-    let originalMedicine: any = null;
-    let excludeMedicineId: number | null = null;
+    let originalMedicine: typeof medicines.$inferSelect | null = null;
+    let targetDoses: IngredientDose[];
 
     // If medicineId is provided, fetch the original medicine first
     if (medicineIdParam) {
@@ -33,7 +114,7 @@ export async function GET(request: NextRequest) {
       // Validate medicineId is a valid integer
       if (isNaN(medicineId)) {
         return NextResponse.json(
-          { 
+          {
             error: 'Valid medicine ID is required',
             code: 'INVALID_MEDICINE_ID'
           },
@@ -49,7 +130,7 @@ export async function GET(request: NextRequest) {
 
       if (medicineResult.length === 0) {
         return NextResponse.json(
-          { 
+          {
             error: 'Medicine not found',
             code: 'MEDICINE_NOT_FOUND'
           },
@@ -59,59 +140,88 @@ export async function GET(request: NextRequest) {
 
       originalMedicine = medicineResult[0];
       saltComposition = originalMedicine.saltComposition;
-      excludeMedicineId = medicineId;
+      // Fall back to parsing for medicines the ingredient backfill has not reached
+      targetDoses = (await medicineIngredientDoses(db, [medicineId])).get(medicineId)
+        ?? parseSaltComposition(saltComposition);
     } else {
       // Use the provided salt composition
       saltComposition = saltCompositionParam!;
+      targetDoses = parseSaltComposition(saltComposition);
     }
 
-    // Query for alternative medicines with matching salt composition
-    let query = db.select()
-      .from(medicines)
-      .where(eq(medicines.saltComposition, saltComposition));
-
-    // Exclude the original medicine if medicineId was provided
-    if (excludeMedicineId !== null) {
-      query = db.select()
-        .from(medicines)
-        .where(
-          and(
-            eq(medicines.saltComposition, saltComposition),
-            ne(medicines.id, excludeMedicineId)
-          )
-        );
+    if (targetDoses.length === 0) {
+      return NextResponse.json(
+        {
+          alternatives: [],
+          saltComposition,
+          ingredients: [],
+          count: 0,
+          ...(originalMedicine && { originalMedicine }),
+        },
+        { status: 200 }
+      );
     }
 
-    // Execute query with ordering and pagination
-    const alternatives = await query
-      .orderBy(medicines.price)
-      .limit(limit)
-      .offset(offset);
+    // Every medicine sharing at least one ingredient, with its full ingredient set
+    const candidateIds = (await medicinesWithIngredients(db, targetDoses.map((dose) => dose.normalizedName)))
+      .filter((id) => id !== originalMedicine?.id);
+    const candidateDoses = await medicineIngredientDoses(db, candidateIds);
+    const candidates = candidateIds.length > 0
+      ? await db.select().from(medicines).where(inArray(medicines.id, candidateIds))
+      : [];
+
+    // Same ingredients at the same strengths are substitutes; sharing only some
+    // ingredients (e.g. one half of a combination drug) is a partial match
+    const targetKey = doseSetKey(targetDoses);
+    const matches = candidates
+      .map((medicine) => {
+        const doses = candidateDoses.get(medicine.id) ?? [];
+        const matchType: MatchType = doseSetKey(doses) === targetKey ? 'exact' : 'partial';
+        return {
+          ...medicine,
+          matchType,
+          sharedIngredients: sharedIngredientCount(targetDoses, doses),
+          priceDifference: originalMedicine ? roundCurrency(medicine.price - originalMedicine.price) : null,
+          ingredients: doses,
+        };
+      })
+      .filter((match) => match.matchType === 'exact' || includePartial === 'true');
+
+    // Exact substitutes first, cheapest relative to the original first
+    matches.sort((a, b) =>
+      (a.matchType === b.matchType ? 0 : a.matchType === 'exact' ? -1 : 1) ||
+      b.sharedIngredients - a.sharedIngredients ||
+      a.price - b.price
+    );
 
-    // Get total count of alternatives (excluding original medicine if applicable)
-    let countQuery = db.select()
-      .from(medicines)
-      .where(eq(medicines.saltComposition, saltComposition));
+    const page = matches
+      .slice(offset, offset + limit)
+      .map(({ sharedIngredients, ...match }) => match);
 
-    if (excludeMedicineId !== null) {
-      countQuery = db.select()
-        .from(medicines)
-        .where(
-          and(
-            eq(medicines.saltComposition, saltComposition),
-            ne(medicines.id, excludeMedicineId)
-          )
-        );
-    }
+    let alternatives: (typeof page[number] & { availability?: SubstituteAvailability | null })[] = page;
 
-    const countResult = await countQuery;
-    const count = countResult.length;
+    // Cheapest nearby pharmacy stocking each alternative, and the saving
+    // against the original medicine at that same pharmacy
+    if (location) {
+      const offers = await findLocalOffers(
+        db,
+        [...page.map((match) => match.id), ...(originalMedicine ? [originalMedicine.id] : [])],
+        location
+      );
+      const originalOffers = originalMedicine ? offers.get(originalMedicine.id) ?? [] : [];
+
+      alternatives = page.map((match) => ({
+        ...match,
+        availability: substituteAvailability(offers.get(match.id), originalOffers),
+      }));
+    }
 
     // Build response object
-    const response: any = {
+    const response: Record<string, unknown> = {
       alternatives,
       saltComposition,
-      count
+      ingredients: targetDoses,
+      count: matches.length
     };
 
     // Include original medicine if medicineId was provided
@@ -124,10 +234,10 @@ export async function GET(request: NextRequest) {
   } catch (error: any) {
     console.error('GET error:', error);
     return NextResponse.json(
-      { 
-        error: 'Internal server error: ' + error.message 
+      {
+        error: 'Internal server error: ' + error.message
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { medicines } from '@/db/schema';
+import { inArray } from 'drizzle-orm';
+import { findInteractions } from '@/lib/interactions';
+
+const MAX_MEDICINES = 50;
+
+// Check a cart (or any list of medicines) for drug-drug interactions
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { medicineIds } = body;
+
+    if (
+      !Array.isArray(medicineIds) ||
+      medicineIds.length === 0 ||
+      medicineIds.some((id) => isNaN(parseInt(String(id))))
+    ) {
+      return NextResponse.json(
+        { error: 'medicineIds must be a non-empty array of medicine IDs', code: 'INVALID_MEDICINE_IDS' },
+        { status: 400 }
+      );
+    }
+
+    const ids: number[] = [...new Set(medicineIds.map((id) => parseInt(String(id))))];
+
+    if (ids.length > MAX_MEDICINES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_MEDICINES} medicines can be checked at once`, code: 'TOO_MANY_MEDICINES' },
+        { status: 400 }
+      );
+    }
+
+    const found = await db
+      .select({ id: medicines.id })
+      .from(medicines)
+      .where(inArray(medicines.id, ids));
+
+    const missingMedicine = ids.find((id) => !found.some((medicine) => medicine.id === id));
+    if (missingMedicine !== undefined) {
+      return NextResponse.json(
+        { error: 'Medicine not found', code: 'MEDICINE_NOT_FOUND', medicineId: missingMedicine },
+        { status: 404 }
+      );
+    }
+
+    const interactions = await findInteractions(db, ids);
+
+    return NextResponse.json(
+      {
+        interactions,
+        count: interactions.length,
+        hasSevere: interactions.some((interaction) => interaction.severity === 'severe'),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
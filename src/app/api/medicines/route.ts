@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { medicines } from '@/db/schema';
 import { eq, like, and, or, desc } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { requireActor } from '@/lib/authz';
+import { invalidateSuggestIndex } from '@/lib/medicine-suggest';
+import { syncMedicineIngredients } from '@/lib/ingredients';
 
 const VALID_CATEGORIES = ['prescription', 'otc', 'supplement', 'device', 'first_aid', 'baby_care', 'personal_care'];
 
@@ -95,6 +99,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    await requireActor(request, ['admin']);
+
     const body = await request.json();
     const { name, brand, saltComposition, category, unit, price, description, manufacturer, requiresPrescription, imageUrl } = body;
 
@@ -187,12 +193,22 @@ export async function POST(request: NextRequest) {
       updatedAt: now,
     };
 
-    const newMedicine = await db.insert(medicines)
-      .values(insertData)
-      .returning();
+    // Keep the normalized ingredients in step with the salt composition
+    const newMedicine = await db.transaction(async (tx) => {
+      const inserted = await tx.insert(medicines)
+        .values(insertData)
+        .returning();
+      await syncMedicineIngredients(tx, inserted[0].id, inserted[0].saltComposition);
+      return inserted;
+    });
+
+    invalidateSuggestIndex();
 
     return NextResponse.json(newMedicine[0], { status: 201 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('POST error:', error);
     return NextResponse.json({ 
       error: 'Internal server error: ' + error.message 
@@ -202,6 +218,8 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    await requireActor(request, ['admin']);
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -321,13 +339,24 @@ export async function PUT(request: NextRequest) {
     // Always update timestamp
     updates.updatedAt = new Date().toISOString();
 
-    const updated = await db.update(medicines)
-      .set(updates)
-      .where(eq(medicines.id, parseInt(id)))
-      .returning();
+    const updated = await db.transaction(async (tx) => {
+      const rows = await tx.update(medicines)
+        .set(updates)
+        .where(eq(medicines.id, parseInt(id)))
+        .returning();
+      if (updates.saltComposition !== undefined) {
+        await syncMedicineIngredients(tx, rows[0].id, rows[0].saltComposition);
+      }
+      return rows;
+    });
+
+    invalidateSuggestIndex();
 
     return NextResponse.json(updated[0], { status: 200 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('PUT error:', error);
     return NextResponse.json({ 
       error: 'Internal server error: ' + error.message 
@@ -337,6 +366,8 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    await requireActor(request, ['admin']);
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -364,11 +395,16 @@ export async function DELETE(request: NextRequest) {
       .where(eq(medicines.id, parseInt(id)))
       .returning();
 
+    invalidateSuggestIndex();
+
     return NextResponse.json({ 
       message: 'Medicine deleted successfully',
       medicine: deleted[0]
     }, { status: 200 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('DELETE error:', error);
     return NextResponse.json({ 
       error: 'Internal server error: ' + error.message 
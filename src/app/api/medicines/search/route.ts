@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { medicines } from '@/db/schema';
-import { like, and, or, gte, lte, eq, desc, asc, sql, count } from 'drizzle-orm';
+import { and, gte, lte, eq, desc, asc, count } from 'drizzle-orm';
+import { buildMatchExpression, ftsMatch, matchHighlights, medicinesFts, relevanceScore } from '@/lib/medicine-search';
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,20 +14,28 @@ export async function GET(request: NextRequest) {
     const minPrice = searchParams.get('minPrice');
     const maxPrice = searchParams.get('maxPrice');
     const requiresPrescription = searchParams.get('requiresPrescription');
-    const sortBy = searchParams.get('sortBy') || 'name';
+    // Text searches rank by relevance unless another order is asked for
+    const sortBy = searchParams.get('sortBy') || (q.trim() ? 'relevance' : 'name');
     const order = searchParams.get('order') || 'asc';
     const limit = Math.min(parseInt(searchParams.get('limit') ?? '20'), 100);
     const offset = parseInt(searchParams.get('offset') ?? '0');
 
     // Validate sortBy parameter
-    const validSortFields = ['price', 'name', 'createdAt'];
+    const validSortFields = ['relevance', 'price', 'name', 'createdAt'];
     if (!validSortFields.includes(sortBy)) {
       return NextResponse.json({
-        error: 'Invalid sortBy parameter. Must be one of: price, name, createdAt',
+        error: 'Invalid sortBy parameter. Must be one of: relevance, price, name, createdAt',
         code: 'INVALID_SORT_FIELD'
       }, { status: 400 });
     }
 
+    if (sortBy === 'relevance' && !q.trim()) {
+      return NextResponse.json({
+        error: 'sortBy=relevance requires a search query (q)',
+        code: 'MISSING_QUERY'
+      }, { status: 400 });
+    }
+
     // Validate order parameter
     if (order !== 'asc' && order !== 'desc') {
       return NextResponse.json({
@@ -77,15 +86,13 @@ export async function GET(request: NextRequest) {
     // Build filter conditions
     const conditions = [];
 
-    // Search across name, brand, and saltComposition
-    if (q.trim()) {
-      conditions.push(
-        or(
-          like(medicines.name, `%${q}%`),
-          like(medicines.brand, `%${q}%`),
-          like(medicines.saltComposition, `%${q}%`)
-        )
-      );
+    // Full-text search across name, brand, and saltComposition, tolerating typos
+    const matchExpression = q.trim() ? await buildMatchExpression(q) : null;
+    if (matchExpression) {
+      conditions.push(ftsMatch(matchExpression));
+    } else if (q.trim()) {
+      // Nothing searchable in the query (only punctuation or symbols)
+      return NextResponse.json({ results: [], count: 0, limit, offset }, { status: 200 });
     }
 
     // Category filter
@@ -110,31 +117,50 @@ export async function GET(request: NextRequest) {
     const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
 
     // Determine sort order
-    const orderByClause = order === 'desc' 
-      ? desc(medicines[sortBy as keyof typeof medicines])
-      : asc(medicines[sortBy as keyof typeof medicines]);
-
-    // Execute query for results
-    let query = db.select().from(medicines);
-    
-    if (whereCondition) {
-      query = query.where(whereCondition);
+    const relevance = matchExpression ? relevanceScore(q) : null;
+    const sortColumn = sortBy === 'relevance'
+      ? relevance
+      : medicines[sortBy as 'price' | 'name' | 'createdAt'];
+    const orderByClause = sortColumn
+      ? (order === 'desc' || sortBy === 'relevance' ? desc(sortColumn) : asc(sortColumn))
+      : asc(medicines.name);
+
+    let results;
+    let totalCount: number;
+
+    if (matchExpression && relevance) {
+      // Join the FTS index so the match can be ranked and highlighted
+      const rows = await db
+        .select({ medicine: medicines, relevance, highlights: matchHighlights })
+        .from(medicines)
+        .innerJoin(medicinesFts, eq(medicinesFts.rowid, medicines.id))
+        .where(whereCondition)
+        .orderBy(orderByClause, asc(medicines.name))
+        .limit(limit)
+        .offset(offset);
+
+      results = rows.map(({ medicine, relevance, highlights }) => ({ ...medicine, relevance, highlights }));
+
+      [{ count: totalCount }] = await db
+        .select({ count: count() })
+        .from(medicines)
+        .innerJoin(medicinesFts, eq(medicinesFts.rowid, medicines.id))
+        .where(whereCondition);
+    } else {
+      results = await db
+        .select()
+        .from(medicines)
+        .where(whereCondition)
+        .orderBy(orderByClause)
+        .limit(limit)
+        .offset(offset);
+
+      [{ count: totalCount }] = await db
+        .select({ count: count() })
+        .from(medicines)
+        .where(whereCondition);
     }
 
-    const results = await query
-      .orderBy(orderByClause)
-      .limit(limit)
-      .offset(offset);
-
-    // Get total count
-    let countQuery = db.select({ count: count() }).from(medicines);
-    
-    if (whereCondition) {
-      countQuery = countQuery.where(whereCondition);
-    }
-
-    const [{ count: totalCount }] = await countQuery;
-
     // Return response
     return NextResponse.json({
       results,
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { suggestMedicines } from '@/lib/medicine-suggest';
+
+const MAX_QUERY_LENGTH = 64;
+
+// As-you-type suggestions for the header search box: medicine names, brands,
+// salts and categories starting with the typed prefix, best match first
+export async function GET(request: NextRequest) {
+  try {
+    const startedAt = performance.now();
+    const searchParams = request.nextUrl.searchParams;
+    const q = searchParams.get('q') ?? '';
+    const limit = Math.min(parseInt(searchParams.get('limit') ?? '8'), 20);
+
+    if (isNaN(limit) || limit < 1) {
+      return NextResponse.json({
+        error: 'limit must be a positive number',
+        code: 'INVALID_LIMIT'
+      }, { status: 400 });
+    }
+
+    if (q.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json({
+        error: `q must be at most ${MAX_QUERY_LENGTH} characters`,
+        code: 'QUERY_TOO_LONG'
+      }, { status: 400 });
+    }
+
+    const suggestions = await suggestMedicines(q, limit);
+
+    return NextResponse.json({ query: q, suggestions }, {
+      status: 200,
+      headers: {
+        'Server-Timing': `suggest;dur=${(performance.now() - startedAt).toFixed(1)}`,
+      },
+    });
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error'),
+      code: 'INTERNAL_SERVER_ERROR'
+    }, { status: 500 });
+  }
+}
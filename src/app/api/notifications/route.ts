@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { notifications } from '@/db/schema';
+import { eq, and, desc, isNull } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { forbidden, requireActor } from '@/lib/authz';
+
+// The signed-in user's notifications, newest first; `unread=true` for unread only
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor(request);
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') ?? '20'), 100);
+    const offset = parseInt(searchParams.get('offset') ?? '0');
+    const unread = searchParams.get('unread') === 'true';
+
+    const results = await db.select()
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, actor.userId),
+          unread ? isNull(notifications.readAt) : undefined
+        )
+      )
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit)
+      .offset(offset);
+
+    return NextResponse.json(results.map((notification) => ({
+      ...notification,
+      data: notification.data ? JSON.parse(notification.data) : null
+    })), { status: 200 });
+
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + (error as Error).message
+    }, { status: 500 });
+  }
+}
+
+// Mark one of the user's notifications as read
+export async function PUT(request: NextRequest) {
+  try {
+    const actor = await requireActor(request);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json({
+        error: 'Valid ID is required',
+        code: 'INVALID_ID'
+      }, { status: 400 });
+    }
+
+    const existing = await db.select()
+      .from(notifications)
+      .where(eq(notifications.id, parseInt(id)))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return NextResponse.json({
+        error: 'Notification not found',
+        code: 'NOTIFICATION_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    if (existing[0].userId !== actor.userId) {
+      throw forbidden();
+    }
+
+    const [updated] = await db.update(notifications)
+      .set({ readAt: existing[0].readAt ?? new Date().toISOString() })
+      .where(eq(notifications.id, parseInt(id)))
+      .returning();
+
+    return NextResponse.json({
+      ...updated,
+      data: updated.data ? JSON.parse(updated.data) : null
+    }, { status: 200 });
+
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('PUT error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + (error as Error).message
+    }, { status: 500 });
+  }
+}
@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { orderItems, orders, medicines } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { orderItems, orders, medicines, prescriptionItems } from '@/db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertOrderAccess, assertPharmacyAccess, forbidden, orderScope, requireActor } from '@/lib/authz';
+import { refreshPrescriptionRequired } from '@/lib/prescription-gate';
+import { refundOrderItems } from '@/lib/refunds';
 
 export async function GET(request: NextRequest) {
   try {
+    const actor = await requireActor(request);
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -30,6 +36,13 @@ export async function GET(request: NextRequest) {
         );
       }
 
+      const [order] = await db
+        .select()
+        .from(orders)
+        .where(eq(orders.id, orderItem[0].orderId))
+        .limit(1);
+      await assertOrderAccess(actor, order);
+
       return NextResponse.json(orderItem[0], { status: 200 });
     }
 
@@ -41,8 +54,16 @@ export async function GET(request: NextRequest) {
 
     let query = db.select().from(orderItems);
 
-    // Build filter conditions
+    // Build filter conditions, limited to items of orders the caller may see
     const conditions = [];
+
+    const scope = orderScope(actor);
+    if (scope) {
+      conditions.push(
+        inArray(orderItems.orderId, db.select({ id: orders.id }).from(orders).where(scope))
+      );
+    }
+
     if (orderId) {
       const orderIdNum = parseInt(orderId);
       if (isNaN(orderIdNum)) {
@@ -72,6 +93,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(results, { status: 200 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('GET error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -82,6 +106,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    await requireActor(request, ['admin']);
+
     const body = await request.json();
     const { orderId, medicineId, quantity, price, discount, subtotal } = body;
 
@@ -204,20 +230,27 @@ export async function POST(request: NextRequest) {
     }
 
     // Create order item
-    const newOrderItem = await db
-      .insert(orderItems)
-      .values({
-        orderId: orderIdNum,
-        medicineId: medicineIdNum,
-        quantity: quantityNum,
-        price: priceNum,
-        discount: discountNum,
-        subtotal: subtotalNum,
-      })
-      .returning();
+    const newOrderItem = await db.transaction(async (tx) => {
+      const created = await tx
+        .insert(orderItems)
+        .values({
+          orderId: orderIdNum,
+          medicineId: medicineIdNum,
+          quantity: quantityNum,
+          price: priceNum,
+          discount: discountNum,
+          subtotal: subtotalNum,
+        })
+        .returning();
+      await refreshPrescriptionRequired(tx, orderIdNum);
+      return created;
+    });
 
     return NextResponse.json(newOrderItem[0], { status: 201 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('POST error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -228,6 +261,8 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -254,8 +289,24 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    const order = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, existingOrderItem[0].orderId))
+      .limit(1);
+
+    assertPharmacyAccess(actor, order[0]?.pharmacyId);
+
     const body = await request.json();
-    const { quantity, price, discount, subtotal } = body;
+    const { quantity, price, discount, subtotal, isAvailable } = body;
+
+    // Pharmacies only flag lines they cannot supply; pricing is fixed at placement
+    if (
+      actor.role !== 'admin' &&
+      [quantity, price, discount, subtotal].some((value) => value !== undefined && value !== null)
+    ) {
+      throw forbidden('Pharmacies can only change item availability');
+    }
 
     const updates: any = {};
 
@@ -307,6 +358,17 @@ export async function PUT(request: NextRequest) {
       updates.subtotal = subtotalNum;
     }
 
+    // Validate and prepare availability update
+    if (isAvailable !== undefined && isAvailable !== null) {
+      if (typeof isAvailable !== 'boolean') {
+        return NextResponse.json(
+          { error: 'isAvailable must be a boolean', code: 'INVALID_AVAILABILITY' },
+          { status: 400 }
+        );
+      }
+      updates.isAvailable = isAvailable;
+    }
+
     // If no valid updates provided
     if (Object.keys(updates).length === 0) {
       return NextResponse.json(
@@ -315,15 +377,44 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // A line the pharmacy cannot supply on a paid order is refunded before it
+    // is marked unavailable, so a refund the gateway refuses is retried by
+    // flagging the line again
+    let refund = null;
+    if (
+      updates.isAvailable === false &&
+      existingOrderItem[0].isAvailable !== false &&
+      order.length > 0 &&
+      ['paid', 'partially_refunded'].includes(order[0].paymentStatus)
+    ) {
+      try {
+        [refund] = await refundOrderItems(order[0], existingOrderItem, 'Item unavailable at pharmacy');
+      } catch (error) {
+        // Refunded already, e.g. by an attempt that failed before flagging the line
+        if (!(error instanceof ApiError && error.code === 'ITEM_ALREADY_REFUNDED')) {
+          throw error;
+        }
+      }
+    }
+
     // Update order item
-    const updated = await db
-      .update(orderItems)
-      .set(updates)
-      .where(eq(orderItems.id, idNum))
-      .returning();
+    const updated = await db.transaction(async (tx) => {
+      const result = await tx
+        .update(orderItems)
+        .set(updates)
+        .where(eq(orderItems.id, idNum))
+        .returning();
+      if (updates.isAvailable !== undefined) {
+        await refreshPrescriptionRequired(tx, result[0].orderId);
+      }
+      return result;
+    });
 
-    return NextResponse.json(updated[0], { status: 200 });
+    return NextResponse.json(refund ? { ...updated[0], refund } : updated[0], { status: 200 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('PUT error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -334,6 +425,8 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    await requireActor(request, ['admin']);
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -360,11 +453,16 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Delete order item
-    const deleted = await db
-      .delete(orderItems)
-      .where(eq(orderItems.id, idNum))
-      .returning();
+    // Delete order item along with its prescription review
+    const deleted = await db.transaction(async (tx) => {
+      await tx.delete(prescriptionItems).where(eq(prescriptionItems.orderItemId, idNum));
+      const result = await tx
+        .delete(orderItems)
+        .where(eq(orderItems.id, idNum))
+        .returning();
+      await refreshPrescriptionRequired(tx, result[0].orderId);
+      return result;
+    });
 
     return NextResponse.json(
       {
@@ -374,6 +472,9 @@ export async function DELETE(request: NextRequest) {
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('DELETE error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
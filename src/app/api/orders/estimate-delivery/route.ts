@@ -2,47 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { pharmacies } from '@/db/schema';
 import { eq } from 'drizzle-orm';
-
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Earth radius in km
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-            Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-            Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  const distance = R * c;
-  return Math.round(distance * 100) / 100; // Round to 2 decimal places
-}
-
-function calculateTravelTime(distance: number): number {
-  if (distance <= 2) return 10;
-  if (distance <= 5) return 20;
-  if (distance <= 10) return 35;
-  if (distance <= 20) return 60;
-  return 90;
-}
-
-function calculateDeliveryFee(distance: number): number {
-  if (distance <= 2) return 2.00;
-  if (distance <= 5) return 3.50;
-  if (distance <= 10) return 5.00;
-  if (distance <= 20) return 7.50;
-  return 10.00;
-}
-
-function validateLatitude(lat: number): boolean {
-  return lat >= -90 && lat <= 90;
-}
-
-function validateLongitude(lon: number): boolean {
-  return lon >= -180 && lon <= 180;
-}
+import {
+  calculateDistance,
+  estimateDelivery,
+  validateLatitude,
+  validateLongitude,
+} from '@/lib/delivery-estimate';
 
 export async function POST(request: NextRequest) {
   try {
@@ -129,14 +94,8 @@ export async function POST(request: NextRequest) {
       deliveryLon
     );
 
-    // Calculate delivery time components
-    const preparationTime = 15;
-    const travelTime = calculateTravelTime(distance);
-    const bufferTime = 5;
-    const estimatedDeliveryTime = preparationTime + travelTime + bufferTime;
-
-    // Calculate delivery fee
-    const deliveryFee = calculateDeliveryFee(distance);
+    // Calculate delivery time components and fee
+    const { estimatedDeliveryTime, breakdown, deliveryFee } = estimateDelivery(distance);
 
     // Calculate estimated delivery timestamp
     const now = new Date();
@@ -158,11 +117,7 @@ export async function POST(request: NextRequest) {
       },
       distance,
       estimatedDeliveryTime,
-      breakdown: {
-        preparationTime,
-        travelTime,
-        bufferTime
-      },
+      breakdown,
       deliveryFee,
       estimatedDeliveryAt
     };
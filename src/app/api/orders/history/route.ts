@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { orders, orderStatusHistory } from '@/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertOrderAccess, requireActor } from '@/lib/authz';
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor(request);
+
+    const { searchParams } = new URL(request.url);
+    const orderId = searchParams.get('orderId');
+
+    if (!orderId || isNaN(parseInt(orderId))) {
+      return NextResponse.json(
+        { error: 'Valid orderId is required', code: 'INVALID_ORDER_ID' },
+        { status: 400 }
+      );
+    }
+
+    const order = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, parseInt(orderId)))
+      .limit(1);
+
+    if (order.length === 0) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    await assertOrderAccess(actor, order[0]);
+
+    const history = await db
+      .select()
+      .from(orderStatusHistory)
+      .where(eq(orderStatusHistory.orderId, order[0].id))
+      .orderBy(asc(orderStatusHistory.changedAt), asc(orderStatusHistory.id));
+
+    return NextResponse.json(
+      {
+        orderId: order[0].id,
+        currentStatus: order[0].status,
+        history
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,379 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { orders, orderItems, inventory, medicines, users, pharmacies, prescriptions } from '@/db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertSelfOrAdmin, requireActor } from '@/lib/authz';
+import { findInteractions } from '@/lib/interactions';
+import { generateOrderNumber, priceLine, roundCurrency } from '@/lib/orders';
+import { INITIAL_ORDER_STATUS, recordStatusChange } from '@/lib/order-status';
+import { PAYMENT_METHODS, isPaymentMethod } from '@/lib/payments';
+import { confirmedCart } from '@/lib/prescription-parsing';
+import { linkPrescriptionToOrder } from '@/lib/prescription-review';
+import { decrementStock, freeQuantity, reserveStock } from '@/lib/stock-reservations';
+import {
+  calculateDistance,
+  estimateDelivery,
+  validateLatitude,
+  validateLongitude,
+} from '@/lib/delivery-estimate';
+
+interface CartLine {
+  medicineId: number;
+  quantity: number;
+}
+
+interface PricedLine extends CartLine {
+  inventoryId: number;
+  price: number;
+  discount: number;
+  subtotal: number;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['customer', 'admin']);
+
+    const body = await request.json();
+    const {
+      userId = actor.userId,
+      pharmacyId,
+      items,
+      deliveryAddress,
+      deliveryLatitude,
+      deliveryLongitude,
+      paymentMethod = 'online',
+      // A prescription whose suggested cart the pharmacist confirmed; its
+      // lines are added to `items`
+      prescriptionId
+    } = body;
+
+    // Validate required fields
+    if (!userId || isNaN(parseInt(userId))) {
+      return NextResponse.json(
+        { error: 'Valid userId is required', code: 'INVALID_USER_ID' },
+        { status: 400 }
+      );
+    }
+
+    // Customers place orders for themselves; admins may place on a user's behalf
+    assertSelfOrAdmin(actor, parseInt(userId));
+
+    if (!pharmacyId || isNaN(parseInt(pharmacyId))) {
+      return NextResponse.json(
+        { error: 'Valid pharmacyId is required', code: 'INVALID_PHARMACY_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      prescriptionId !== undefined &&
+      (!Number.isInteger(prescriptionId) || prescriptionId <= 0)
+    ) {
+      return NextResponse.json(
+        { error: 'prescriptionId must be a positive integer', code: 'INVALID_PRESCRIPTION_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (items !== undefined && !Array.isArray(items)) ||
+      (prescriptionId === undefined && (!Array.isArray(items) || items.length === 0))
+    ) {
+      return NextResponse.json(
+        { error: 'items must be a non-empty array', code: 'MISSING_ITEMS' },
+        { status: 400 }
+      );
+    }
+
+    if (!deliveryAddress || typeof deliveryAddress !== 'string' || !deliveryAddress.trim()) {
+      return NextResponse.json(
+        { error: 'deliveryAddress is required', code: 'MISSING_DELIVERY_ADDRESS' },
+        { status: 400 }
+      );
+    }
+
+    const deliveryLat = parseFloat(deliveryLatitude);
+    if (isNaN(deliveryLat) || !validateLatitude(deliveryLat)) {
+      return NextResponse.json(
+        { error: 'deliveryLatitude must be between -90 and 90', code: 'INVALID_LATITUDE' },
+        { status: 400 }
+      );
+    }
+
+    const deliveryLon = parseFloat(deliveryLongitude);
+    if (isNaN(deliveryLon) || !validateLongitude(deliveryLon)) {
+      return NextResponse.json(
+        { error: 'deliveryLongitude must be between -180 and 180', code: 'INVALID_LONGITUDE' },
+        { status: 400 }
+      );
+    }
+
+    if (!isPaymentMethod(paymentMethod)) {
+      return NextResponse.json(
+        {
+          error: `Invalid paymentMethod. Must be one of: ${PAYMENT_METHODS.join(', ')}`,
+          code: 'INVALID_PAYMENT_METHOD'
+        },
+        { status: 400 }
+      );
+    }
+
+    let prescription: typeof prescriptions.$inferSelect | undefined;
+    let prescribedItems: CartLine[] = [];
+    if (prescriptionId !== undefined) {
+      [prescription] = await db
+        .select()
+        .from(prescriptions)
+        .where(eq(prescriptions.id, prescriptionId))
+        .limit(1);
+
+      if (!prescription) {
+        return NextResponse.json(
+          { error: 'Prescription not found', code: 'PRESCRIPTION_NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      if (prescription.userId !== parseInt(userId)) {
+        return NextResponse.json(
+          { error: 'Prescription belongs to a different user', code: 'ORDER_USER_MISMATCH' },
+          { status: 400 }
+        );
+      }
+
+      prescribedItems = await confirmedCart(db, prescription.id);
+      if (prescribedItems.length === 0) {
+        return NextResponse.json(
+          { error: 'No suggested lines of this prescription have been confirmed', code: 'NO_CONFIRMED_SUGGESTIONS' },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Validate cart lines, merging repeated medicines into a single line
+    const linesByMedicine = new Map<number, CartLine>();
+    for (const item of [...(items ?? []), ...prescribedItems]) {
+      const medicineId = parseInt(item?.medicineId);
+      const quantity = parseInt(item?.quantity);
+
+      if (isNaN(medicineId) || medicineId <= 0) {
+        return NextResponse.json(
+          { error: 'Each item requires a valid medicineId', code: 'INVALID_MEDICINE_ID' },
+          { status: 400 }
+        );
+      }
+
+      if (isNaN(quantity) || quantity <= 0) {
+        return NextResponse.json(
+          { error: 'Each item requires a positive integer quantity', code: 'INVALID_QUANTITY' },
+          { status: 400 }
+        );
+      }
+
+      const existing = linesByMedicine.get(medicineId);
+      linesByMedicine.set(medicineId, {
+        medicineId,
+        quantity: (existing?.quantity ?? 0) + quantity,
+      });
+    }
+    const lines = [...linesByMedicine.values()];
+    const medicineIds = lines.map((line) => line.medicineId);
+
+    // Check if user exists
+    const userExists = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, parseInt(userId)))
+      .limit(1);
+
+    if (userExists.length === 0) {
+      return NextResponse.json(
+        { error: 'User not found', code: 'USER_NOT_FOUND' },
+        { status: 400 }
+      );
+    }
+
+    // Check if pharmacy exists and is accepting orders
+    const pharmacy = await db
+      .select()
+      .from(pharmacies)
+      .where(eq(pharmacies.id, parseInt(pharmacyId)))
+      .limit(1);
+
+    if (pharmacy.length === 0) {
+      return NextResponse.json(
+        { error: 'Pharmacy not found', code: 'PHARMACY_NOT_FOUND' },
+        { status: 400 }
+      );
+    }
+
+    const pharmacyData = pharmacy[0];
+
+    if (!pharmacyData.isActive) {
+      return NextResponse.json(
+        { error: 'Pharmacy is not accepting orders', code: 'PHARMACY_INACTIVE' },
+        { status: 400 }
+      );
+    }
+
+    // Check all medicines exist
+    const medicineRecords = await db
+      .select()
+      .from(medicines)
+      .where(inArray(medicines.id, medicineIds));
+
+    const missingMedicine = medicineIds.find(
+      (id) => !medicineRecords.some((medicine) => medicine.id === id)
+    );
+    if (missingMedicine !== undefined) {
+      return NextResponse.json(
+        { error: 'Medicine not found', code: 'MEDICINE_NOT_FOUND', medicineId: missingMedicine },
+        { status: 400 }
+      );
+    }
+
+    // An order with severe drug-drug interactions is held pending until a
+    // pharmacist of this pharmacy confirms it with an override note
+    const interactions = await findInteractions(db, medicineIds);
+
+    // Price each line from the pharmacy's inventory; expired and reserved
+    // units are not available
+    const inventoryRecords = await db
+      .select({ stock: inventory, free: freeQuantity() })
+      .from(inventory)
+      .where(
+        and(
+          eq(inventory.pharmacyId, pharmacyData.id),
+          inArray(inventory.medicineId, medicineIds)
+        )
+      );
+
+    const pricedLines: PricedLine[] = [];
+    for (const line of lines) {
+      const record = inventoryRecords.find((row) => row.stock.medicineId === line.medicineId);
+
+      if (!record || !record.stock.isAvailable || record.free < line.quantity) {
+        return NextResponse.json(
+          {
+            error: 'Insufficient stock for medicine',
+            code: 'OUT_OF_STOCK',
+            medicineId: line.medicineId,
+            available: record && record.stock.isAvailable ? Math.max(record.free, 0) : 0
+          },
+          { status: 409 }
+        );
+      }
+
+      pricedLines.push({
+        inventoryId: record.stock.id,
+        medicineId: line.medicineId,
+        quantity: line.quantity,
+        ...priceLine(record.stock, line.quantity),
+      });
+    }
+
+    const subtotal = roundCurrency(pricedLines.reduce((sum, line) => sum + line.subtotal, 0));
+    const distance = calculateDistance(
+      pharmacyData.latitude,
+      pharmacyData.longitude,
+      deliveryLat,
+      deliveryLon
+    );
+    const { estimatedDeliveryTime, deliveryFee } = estimateDelivery(distance);
+    const prescriptionRequired = medicineRecords.some((medicine) => medicine.requiresPrescription);
+
+    // Write order, items and stock decrements or reservations atomically
+    const now = new Date().toISOString();
+    const result = await db.transaction(async (tx) => {
+      const [order] = await tx
+        .insert(orders)
+        .values({
+          userId: parseInt(userId),
+          pharmacyId: pharmacyData.id,
+          orderNumber: generateOrderNumber(),
+          status: INITIAL_ORDER_STATUS,
+          totalAmount: subtotal,
+          deliveryFee,
+          deliveryAddress: deliveryAddress.trim(),
+          deliveryLatitude: deliveryLat,
+          deliveryLongitude: deliveryLon,
+          estimatedDeliveryTime,
+          prescriptionRequired,
+          prescriptionVerified: false,
+          paymentMethod,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning();
+      await recordStatusChange(tx, order.id, null, order.status, {
+        changedBy: actor.userId
+      });
+
+      const createdItems = [];
+      for (const line of pricedLines) {
+        // Cash orders take their stock now; online orders reserve it below
+        // until the payment is captured
+        if (paymentMethod === 'cod' && !(await decrementStock(tx, order.id, line.inventoryId, line.quantity))) {
+          throw new ApiError('Insufficient stock for medicine', 'OUT_OF_STOCK', 409, {
+            medicineId: line.medicineId,
+          });
+        }
+
+        const [item] = await tx
+          .insert(orderItems)
+          .values({
+            orderId: order.id,
+            medicineId: line.medicineId,
+            quantity: line.quantity,
+            price: line.price,
+            discount: line.discount,
+            subtotal: line.subtotal,
+          })
+          .returning();
+        createdItems.push(item);
+      }
+
+      // A prescription not yet attached to an order is reviewed against this one
+      if (prescription && prescription.orderId === null && prescription.status === 'pending') {
+        await tx
+          .update(prescriptions)
+          .set({ orderId: order.id })
+          .where(eq(prescriptions.id, prescription.id));
+        await linkPrescriptionToOrder(tx, prescription.id, order.id);
+      }
+
+      const reservationExpiresAt = paymentMethod === 'online'
+        ? await reserveStock(tx, order.id, pricedLines)
+        : null;
+
+      return { order, items: createdItems, reservationExpiresAt };
+    });
+
+    return NextResponse.json(
+      {
+        order: result.order,
+        items: result.items,
+        // Stock is held until then; unpaid online orders lose it afterwards
+        reservationExpiresAt: result.reservationExpiresAt,
+        subtotal,
+        deliveryFee,
+        total: roundCurrency(subtotal + deliveryFee),
+        distance,
+        // Severe interactions hold the order for the pharmacist; the rest
+        // should be shown
+        interactions
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -2,20 +2,50 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { orders, users, pharmacies } from '@/db/schema';
 import { eq, and, desc } from 'drizzle-orm';
-
-const VALID_STATUSES = [
-  'pending',
-  'confirmed',
-  'preparing',
-  'ready',
-  'picked_up',
-  'out_for_delivery',
-  'delivered',
-  'cancelled'
-] as const;
+import { ApiError } from '@/lib/api-error';
+import { handleOrderCancelled } from '@/lib/order-cancellation';
+import {
+  ORDER_STATUSES,
+  INITIAL_ORDER_STATUS,
+  isOrderStatus,
+  recordStatusChange,
+  transitionOrderStatus,
+  type OrderStatus
+} from '@/lib/order-status';
+import { MIN_OVERRIDE_NOTE_LENGTH } from '@/lib/order-overrides';
+import { PAYMENT_METHODS, isPaymentMethod } from '@/lib/payments';
+import { assertOrderAccess, forbidden, orderScope, requireActor, type UserRole } from '@/lib/authz';
+
+// Status changes each role may make on an order it can access; admins may make any
+const ROLE_STATUS_CHANGES: Record<Exclude<UserRole, 'admin'>, readonly OrderStatus[]> = {
+  customer: ['cancelled'],
+  pharmacy: ['confirmed', 'preparing', 'ready', 'cancelled'],
+  delivery: ['picked_up', 'out_for_delivery', 'delivered'],
+};
+
+// Order fields each role may edit directly; admins may edit all of them
+const ROLE_EDITABLE_FIELDS: Record<Exclude<UserRole, 'admin'>, readonly string[]> = {
+  customer: [],
+  pharmacy: ['estimatedDeliveryTime'],
+  delivery: [],
+};
+
+const EDITABLE_FIELDS = [
+  'totalAmount',
+  'deliveryFee',
+  'deliveryAddress',
+  'deliveryLatitude',
+  'deliveryLongitude',
+  'estimatedDeliveryTime',
+];
+
+// Derived from the order's medicines and its prescription review, never set by callers
+const PRESCRIPTION_FIELDS = ['prescriptionRequired', 'prescriptionVerified'];
 
 export async function GET(request: NextRequest) {
   try {
+    const actor = await requireActor(request);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -41,6 +71,8 @@ export async function GET(request: NextRequest) {
         );
       }
 
+      await assertOrderAccess(actor, order[0]);
+
       return NextResponse.json(order[0], { status: 200 });
     }
 
@@ -53,9 +85,14 @@ export async function GET(request: NextRequest) {
 
     let query = db.select().from(orders);
 
-    // Build filter conditions
+    // Build filter conditions, limited to the orders the caller may see
     const conditions = [];
 
+    const scope = orderScope(actor);
+    if (scope) {
+      conditions.push(scope);
+    }
+
     if (userId) {
       if (isNaN(parseInt(userId))) {
         return NextResponse.json(
@@ -77,10 +114,10 @@ export async function GET(request: NextRequest) {
     }
 
     if (status) {
-      if (!VALID_STATUSES.includes(status as any)) {
+      if (!isOrderStatus(status)) {
         return NextResponse.json(
           {
-            error: `Invalid status. Must be one of: ${VALID_STATUSES.join(', ')}`,
+            error: `Invalid status. Must be one of: ${ORDER_STATUSES.join(', ')}`,
             code: 'INVALID_STATUS'
           },
           { status: 400 }
@@ -100,6 +137,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(results, { status: 200 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('GET error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -110,6 +150,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['admin']);
+
     const body = await request.json();
 
     const {
@@ -123,10 +165,17 @@ export async function POST(request: NextRequest) {
       deliveryLatitude,
       deliveryLongitude,
       estimatedDeliveryTime,
-      prescriptionRequired,
-      prescriptionVerified
+      paymentMethod
     } = body;
 
+    const derivedField = PRESCRIPTION_FIELDS.find((field) => body[field] !== undefined);
+    if (derivedField) {
+      return NextResponse.json(
+        { error: `${derivedField} is derived from the order's items and prescriptions`, code: 'DERIVED_FIELD' },
+        { status: 400 }
+      );
+    }
+
     // Validate required fields
     if (!userId) {
       return NextResponse.json(
@@ -187,16 +236,27 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate status
-    if (!VALID_STATUSES.includes(status as any)) {
+    if (!isOrderStatus(status)) {
       return NextResponse.json(
         {
-          error: `Invalid status. Must be one of: ${VALID_STATUSES.join(', ')}`,
+          error: `Invalid status. Must be one of: ${ORDER_STATUSES.join(', ')}`,
           code: 'INVALID_STATUS'
         },
         { status: 400 }
       );
     }
 
+    // New orders always enter the status graph at its start
+    if (status !== INITIAL_ORDER_STATUS) {
+      return NextResponse.json(
+        {
+          error: `New orders must start with status ${INITIAL_ORDER_STATUS}`,
+          code: 'INVALID_INITIAL_STATUS'
+        },
+        { status: 400 }
+      );
+    }
+
     // Validate totalAmount is a positive number
     if (isNaN(parseFloat(totalAmount)) || parseFloat(totalAmount) < 0) {
       return NextResponse.json(
@@ -245,6 +305,17 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Validate paymentMethod if provided
+    if (paymentMethod !== undefined && !isPaymentMethod(paymentMethod)) {
+      return NextResponse.json(
+        {
+          error: `Invalid paymentMethod. Must be one of: ${PAYMENT_METHODS.join(', ')}`,
+          code: 'INVALID_PAYMENT_METHOD'
+        },
+        { status: 400 }
+      );
+    }
+
     // Check if user exists
     const userExists = await db
       .select()
@@ -297,8 +368,9 @@ export async function POST(request: NextRequest) {
       totalAmount: parseFloat(totalAmount),
       deliveryAddress: deliveryAddress.trim(),
       deliveryFee: deliveryFee !== undefined ? parseFloat(deliveryFee) : 0,
-      prescriptionRequired: prescriptionRequired ?? false,
-      prescriptionVerified: prescriptionVerified ?? false,
+      prescriptionRequired: false,
+      prescriptionVerified: false,
+      paymentMethod: paymentMethod ?? 'online',
       createdAt: now,
       updatedAt: now
     };
@@ -315,10 +387,17 @@ export async function POST(request: NextRequest) {
       insertData.estimatedDeliveryTime = parseInt(estimatedDeliveryTime);
     }
 
-    const newOrder = await db.insert(orders).values(insertData).returning();
+    const newOrder = await db.transaction(async (tx) => {
+      const [order] = await tx.insert(orders).values(insertData).returning();
+      await recordStatusChange(tx, order.id, null, order.status, { changedBy: actor.userId });
+      return order;
+    });
 
-    return NextResponse.json(newOrder[0], { status: 201 });
+    return NextResponse.json(newOrder, { status: 201 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('POST error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -329,6 +408,8 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const actor = await requireActor(request);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -349,8 +430,9 @@ export async function PUT(request: NextRequest) {
       deliveryLatitude,
       deliveryLongitude,
       estimatedDeliveryTime,
-      prescriptionRequired,
-      prescriptionVerified
+      statusNote,
+      prescriptionOverride,
+      interactionOverride
     } = body;
 
     // Check if order exists
@@ -368,16 +450,77 @@ export async function PUT(request: NextRequest) {
     }
 
     // Validate status if provided
-    if (status && !VALID_STATUSES.includes(status as any)) {
+    if (status && !isOrderStatus(status)) {
       return NextResponse.json(
         {
-          error: `Invalid status. Must be one of: ${VALID_STATUSES.join(', ')}`,
+          error: `Invalid status. Must be one of: ${ORDER_STATUSES.join(', ')}`,
           code: 'INVALID_STATUS'
         },
         { status: 400 }
       );
     }
 
+    const derivedField = PRESCRIPTION_FIELDS.find((field) => body[field] !== undefined);
+    if (derivedField) {
+      return NextResponse.json(
+        { error: `${derivedField} is derived from the order's items and prescriptions`, code: 'DERIVED_FIELD' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      prescriptionOverride !== undefined &&
+      (typeof prescriptionOverride?.note !== 'string' ||
+        prescriptionOverride.note.trim().length < MIN_OVERRIDE_NOTE_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `prescriptionOverride.note must be at least ${MIN_OVERRIDE_NOTE_LENGTH} characters`,
+          code: 'INVALID_OVERRIDE_NOTE'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      interactionOverride !== undefined &&
+      (typeof interactionOverride?.note !== 'string' ||
+        interactionOverride.note.trim().length < MIN_OVERRIDE_NOTE_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `interactionOverride.note must be at least ${MIN_OVERRIDE_NOTE_LENGTH} characters`,
+          code: 'INVALID_OVERRIDE_NOTE'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Check the caller may touch this order and make these changes
+    await assertOrderAccess(actor, existingOrder[0]);
+
+    if (actor.role !== 'admin') {
+      if (status && status !== existingOrder[0].status && !ROLE_STATUS_CHANGES[actor.role].includes(status)) {
+        throw forbidden(`A ${actor.role} user cannot move an order to ${status}`);
+      }
+
+      const editableFields = ROLE_EDITABLE_FIELDS[actor.role];
+      const deniedField = EDITABLE_FIELDS.find(
+        (field) => body[field] !== undefined && !editableFields.includes(field)
+      );
+      if (deniedField) {
+        throw forbidden(`A ${actor.role} user cannot change ${deniedField}`);
+      }
+
+      if (prescriptionOverride !== undefined && actor.role !== 'pharmacy') {
+        throw forbidden('Only a pharmacist can override a missing prescription');
+      }
+
+      if (interactionOverride !== undefined && actor.role !== 'pharmacy') {
+        throw forbidden('Only a pharmacist can override a severe interaction');
+      }
+    }
+
     // Validate totalAmount if provided
     if (totalAmount !== undefined && (isNaN(parseFloat(totalAmount)) || parseFloat(totalAmount) < 0)) {
       return NextResponse.json(
@@ -431,24 +574,43 @@ export async function PUT(request: NextRequest) {
       updatedAt: new Date().toISOString()
     };
 
-    if (status !== undefined) updateData.status = status;
     if (totalAmount !== undefined) updateData.totalAmount = parseFloat(totalAmount);
     if (deliveryFee !== undefined) updateData.deliveryFee = parseFloat(deliveryFee);
     if (deliveryAddress !== undefined) updateData.deliveryAddress = deliveryAddress.trim();
     if (deliveryLatitude !== undefined) updateData.deliveryLatitude = parseFloat(deliveryLatitude);
     if (deliveryLongitude !== undefined) updateData.deliveryLongitude = parseFloat(deliveryLongitude);
     if (estimatedDeliveryTime !== undefined) updateData.estimatedDeliveryTime = parseInt(estimatedDeliveryTime);
-    if (prescriptionRequired !== undefined) updateData.prescriptionRequired = prescriptionRequired;
-    if (prescriptionVerified !== undefined) updateData.prescriptionVerified = prescriptionVerified;
 
-    const updated = await db
-      .update(orders)
-      .set(updateData)
-      .where(eq(orders.id, parseInt(id)))
-      .returning();
+    // Status changes go through the transition graph and are recorded in history
+    const updated = await db.transaction(async (tx) => {
+      if (status && status !== existingOrder[0].status) {
+        await transitionOrderStatus(tx, existingOrder[0], status, {
+          changedBy: actor.userId,
+          note: statusNote ? String(statusNote).trim() : null,
+          prescriptionOverride: prescriptionOverride?.note ?? null,
+          interactionOverride: interactionOverride?.note ?? null
+        });
+      }
+
+      const [order] = await tx
+        .update(orders)
+        .set(updateData)
+        .where(eq(orders.id, parseInt(id)))
+        .returning();
+      return order;
+    });
+
+    // Cancelling a paid order refunds it in full
+    if (status === 'cancelled' && existingOrder[0].status !== 'cancelled') {
+      const { refund, refundError } = await handleOrderCancelled(updated);
+      return NextResponse.json({ ...updated, refund, refundError }, { status: 200 });
+    }
 
-    return NextResponse.json(updated[0], { status: 200 });
+    return NextResponse.json(updated, { status: 200 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('PUT error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -459,6 +621,8 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    await requireActor(request, ['admin']);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -496,6 +660,9 @@ export async function DELETE(request: NextRequest) {
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('DELETE error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -1,39 +1,142 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { razorpayInstance } from '@/lib/razorpay-instance';
-import type { RazorpayOrder, OrderCreationRequest } from '@/lib/razorpay.types';
+import { db } from '@/db';
+import { orders, payments } from '@/db/schema';
+import { eq, and, ne, desc } from 'drizzle-orm';
+import { getPaymentGateway } from '@/lib/payment-gateway';
+import { orderAmountDue } from '@/lib/orders';
+import { PAYMENT_CURRENCY } from '@/lib/payments';
+import { ApiError } from '@/lib/api-error';
+import { assertOrderAccess, requireActor } from '@/lib/authz';
+import type { OrderCreationRequest } from '@/lib/razorpay.types';
 
 export async function POST(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['customer', 'admin']);
+
     const body: OrderCreationRequest = await request.json();
 
-    const { amount, currency = 'INR', receipt, notes } = body;
+    const { orderId } = body;
+
+    if (!orderId || isNaN(parseInt(String(orderId)))) {
+      return NextResponse.json(
+        { error: 'Valid orderId is required', code: 'INVALID_ORDER_ID' },
+        { status: 400 }
+      );
+    }
+
+    const order = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, parseInt(String(orderId))))
+      .limit(1);
+
+    if (order.length === 0) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const orderData = order[0];
+
+    await assertOrderAccess(actor, orderData);
+
+    if (orderData.paymentStatus === 'paid') {
+      return NextResponse.json(
+        { error: 'Order is already paid', code: 'ORDER_ALREADY_PAID' },
+        { status: 409 }
+      );
+    }
+
+    if (orderData.paymentMethod === 'cod') {
+      return NextResponse.json(
+        { error: 'Cash-on-delivery orders are paid to the rider', code: 'COD_ORDER' },
+        { status: 409 }
+      );
+    }
+
+    if (orderData.status === 'cancelled') {
+      return NextResponse.json(
+        { error: 'Cancelled orders cannot be paid', code: 'ORDER_NOT_PAYABLE' },
+        { status: 409 }
+      );
+    }
+
+    // The payable amount always comes from our order, never from the client
+    const amount = orderAmountDue(orderData);
 
-    if (!amount || amount <= 0) {
+    if (amount <= 0) {
       return NextResponse.json(
-        { error: 'Invalid amount' },
+        { error: 'Invalid amount', code: 'INVALID_AMOUNT' },
         { status: 400 }
       );
     }
 
-    const orderOptions = {
+    // Reuse an open gateway order for the same amount so retries do not
+    // create a new Razorpay order every time
+    const openPayment = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.orderId, orderData.id), ne(payments.status, 'captured')))
+      .orderBy(desc(payments.id))
+      .limit(1);
+
+    const gateway = getPaymentGateway();
+
+    if (
+      openPayment.length > 0 &&
+      openPayment[0].amount === amount &&
+      openPayment[0].currency === PAYMENT_CURRENCY &&
+      openPayment[0].provider === gateway.name
+    ) {
+      return NextResponse.json(
+        {
+          success: true,
+          orderId: openPayment[0].providerOrderId,
+          amount: Math.round(amount * 100),
+          currency: openPayment[0].currency,
+          provider: gateway.name,
+        },
+        { status: 200 }
+      );
+    }
+
+    const gatewayOrder = await gateway.createOrder({
       amount: Math.round(amount * 100), // Convert to paise
-      currency,
-      receipt: receipt || `receipt_${Date.now()}`,
-      notes: notes || {},
-    };
+      currency: PAYMENT_CURRENCY,
+      receipt: orderData.orderNumber,
+      notes: {
+        orderId: String(orderData.id),
+        orderNumber: orderData.orderNumber,
+      },
+    });
 
-    const order: RazorpayOrder = await razorpayInstance.orders.create(orderOptions);
+    const now = new Date().toISOString();
+    await db.insert(payments).values({
+      orderId: orderData.id,
+      provider: gateway.name,
+      providerOrderId: gatewayOrder.id,
+      amount,
+      currency: gatewayOrder.currency,
+      status: 'created',
+      createdAt: now,
+      updatedAt: now,
+    });
 
     return NextResponse.json(
       {
         success: true,
-        orderId: order.id,
-        amount: order.amount,
-        currency: order.currency,
+        orderId: gatewayOrder.id,
+        amount: gatewayOrder.amount,
+        currency: gatewayOrder.currency,
+        provider: gateway.name,
       },
       { status: 201 }
     );
   } catch (error: unknown) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('Order creation error:', error);
     return NextResponse.json(
       {
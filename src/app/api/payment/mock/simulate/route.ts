@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api-error';
+import { configuredGatewayName } from '@/lib/payment-gateway';
+import { requireActor } from '@/lib/authz';
+import { buildMockWebhook, simulateMockPayment } from '@/lib/mock-payment-gateway';
+
+const OUTCOMES = ['captured', 'failed'] as const;
+
+// Completes a mock gateway checkout. Only available with PAYMENT_GATEWAY=mock.
+export async function POST(request: NextRequest) {
+  try {
+    await requireActor(request);
+
+    if (configuredGatewayName() !== 'mock') {
+      return NextResponse.json(
+        { error: 'Mock payment gateway is not enabled', code: 'MOCK_GATEWAY_DISABLED' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { providerOrderId, outcome = 'captured', method, sendWebhook = false } = body;
+
+    if (!providerOrderId || typeof providerOrderId !== 'string') {
+      return NextResponse.json(
+        { error: 'providerOrderId is required', code: 'MISSING_PROVIDER_ORDER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!OUTCOMES.includes(outcome)) {
+      return NextResponse.json(
+        { error: `outcome must be one of: ${OUTCOMES.join(', ')}`, code: 'INVALID_OUTCOME' },
+        { status: 400 }
+      );
+    }
+
+    const { order, payment, signature } = simulateMockPayment(providerOrderId, { outcome, method });
+
+    // Optionally deliver the matching webhook to our own endpoint
+    let webhook = null;
+    if (sendWebhook) {
+      const event = outcome === 'captured' ? 'payment.captured' : 'payment.failed';
+      const { body: webhookBody, headers } = buildMockWebhook(event, { order, payment });
+      const response = await fetch(new URL('/api/payment/webhook', request.url), {
+        method: 'POST',
+        headers,
+        body: webhookBody,
+      });
+      webhook = { event, status: response.status, response: await response.json() };
+    }
+
+    return NextResponse.json(
+      {
+        razorpay_order_id: order.id,
+        razorpay_payment_id: payment.id,
+        razorpay_signature: signature,
+        status: payment.status,
+        webhook,
+      },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('Mock payment error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Mock payment failed',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { orders, orderItems } from '@/db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { refundOrder, refundOrderItems } from '@/lib/refunds';
+import { assertPharmacyAccess, requireActor } from '@/lib/authz';
+import type { RefundRequest } from '@/lib/razorpay.types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
+    const body: RefundRequest = await request.json();
+    const { orderId, orderItemIds, reason } = body;
+
+    if (!orderId || isNaN(parseInt(String(orderId)))) {
+      return NextResponse.json(
+        { error: 'Valid orderId is required', code: 'INVALID_ORDER_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      orderItemIds !== undefined &&
+      (!Array.isArray(orderItemIds) ||
+        orderItemIds.length === 0 ||
+        orderItemIds.some((itemId) => isNaN(parseInt(String(itemId)))))
+    ) {
+      return NextResponse.json(
+        { error: 'orderItemIds must be a non-empty array of item IDs', code: 'INVALID_ORDER_ITEM_IDS' },
+        { status: 400 }
+      );
+    }
+
+    const order = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, parseInt(String(orderId))))
+      .limit(1);
+
+    if (order.length === 0) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'ORDER_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    // Pharmacies refund orders placed with them
+    assertPharmacyAccess(actor, order[0].pharmacyId);
+
+    const refundReason = reason ? String(reason).trim() : null;
+
+    // Full refund of whatever has not been refunded yet
+    if (!orderItemIds) {
+      const refund = await refundOrder(order[0], refundReason);
+      return NextResponse.json({ refunds: [refund] }, { status: 201 });
+    }
+
+    // Partial refund of individual order items
+    const itemIds = [...new Set(orderItemIds.map((itemId) => parseInt(String(itemId))))];
+    const items = await db
+      .select()
+      .from(orderItems)
+      .where(and(eq(orderItems.orderId, order[0].id), inArray(orderItems.id, itemIds)));
+
+    if (items.length !== itemIds.length) {
+      return NextResponse.json(
+        { error: 'One or more order items not found on this order', code: 'ORDER_ITEM_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const created = await refundOrderItems(order[0], items, refundReason);
+
+    return NextResponse.json({ refunds: created }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('Refund error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Refund failed',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createHmac } from 'crypto';
-import { razorpayInstance } from '@/lib/razorpay-instance';
-import type { PaymentVerificationRequest, RazorpayPayment } from '@/lib/razorpay.types';
+import { db } from '@/db';
+import { orders } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getPaymentGateway } from '@/lib/payment-gateway';
+import { PAYMENT_CURRENCY, findPaymentByProviderOrderId, markPaymentCaptured } from '@/lib/payments';
+import { submitCaptureRefund } from '@/lib/refunds';
+import { ApiError } from '@/lib/api-error';
+import { assertOrderAccess, requireActor } from '@/lib/authz';
+import type { PaymentVerificationRequest } from '@/lib/razorpay.types';
 
 export async function POST(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['customer', 'admin']);
+
     const body: PaymentVerificationRequest = await request.json();
     const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = body;
 
@@ -15,21 +23,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Step 1: Verify signature
-    const body_string = `${razorpay_order_id}|${razorpay_payment_id}`;
-    const expected_signature = createHmac('sha256', process.env.RAZORPAY_KEY_SECRET!)
-      .update(body_string)
-      .digest('hex');
+    // Step 1: Find the MediFast order this gateway order was created for
+    const storedPayment = await findPaymentByProviderOrderId(db, razorpay_order_id);
 
-    if (expected_signature !== razorpay_signature) {
+    if (!storedPayment) {
+      return NextResponse.json(
+        { error: 'No order found for this payment', code: 'PAYMENT_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, storedPayment.orderId))
+      .limit(1);
+    await assertOrderAccess(actor, order);
+
+    // Step 2: Verify signature with the gateway that created the order
+    const gateway = getPaymentGateway(storedPayment.provider);
+    const validSignature = gateway.verifySignature({
+      providerOrderId: razorpay_order_id,
+      providerPaymentId: razorpay_payment_id,
+      signature: razorpay_signature,
+    });
+
+    if (!validSignature) {
       return NextResponse.json(
         { error: 'Invalid signature' },
         { status: 401 }
       );
     }
 
-    // Step 2: Fetch payment to confirm status
-    const payment: RazorpayPayment = await razorpayInstance.payments.fetch(razorpay_payment_id);
+    // Step 3: Fetch payment to confirm status
+    const payment = await gateway.fetchPayment(razorpay_payment_id);
 
     if (payment.status !== 'captured') {
       return NextResponse.json(
@@ -38,8 +65,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Step 3: Fetch order to verify amount
-    const order = await razorpayInstance.orders.fetch(razorpay_order_id);
+    // Step 4: Check the captured amount and currency match what we asked for
+    const expectedAmount = Math.round(storedPayment.amount * 100);
+
+    if (
+      payment.orderId !== razorpay_order_id ||
+      payment.amount !== expectedAmount ||
+      payment.currency !== PAYMENT_CURRENCY
+    ) {
+      console.error('Payment amount mismatch:', {
+        razorpay_order_id,
+        razorpay_payment_id,
+        expectedAmount,
+        paidAmount: payment.amount,
+        paidCurrency: payment.currency,
+      });
+      return NextResponse.json(
+        { error: 'Payment amount or currency does not match order total', code: 'AMOUNT_MISMATCH' },
+        { status: 400 }
+      );
+    }
+
+    // Step 5: Record the capture (idempotent with the webhook)
+    const captured = await db.transaction((tx) =>
+      markPaymentCaptured(tx, {
+        providerOrderId: razorpay_order_id,
+        providerPaymentId: payment.id,
+        amount: payment.amount / 100,
+        currency: payment.currency,
+        method: payment.method,
+      })
+    );
+    if (captured?.refund) {
+      await submitCaptureRefund(captured.refund);
+    }
+    const shortfalls = captured?.shortfalls ?? [];
 
     return NextResponse.json({
       success: true,
@@ -51,11 +111,17 @@ export async function POST(request: NextRequest) {
         status: payment.status,
       },
       order: {
-        id: order.id,
-        status: order.status,
+        id: razorpay_order_id,
+        orderId: storedPayment.orderId,
       },
+      // Paid, but stock sold out while the reservation had lapsed; the order
+      // stays pending until the pharmacy restocks or cancels it
+      ...(shortfalls.length > 0 ? { stockShortfalls: shortfalls } : {}),
     });
   } catch (error: unknown) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('Payment verification error:', error);
     return NextResponse.json(
       {
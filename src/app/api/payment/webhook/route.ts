@@ -1,65 +1,122 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createHmac } from 'crypto';
-import type { RazorpayWebhookPayload } from '@/lib/razorpay.types';
+import { createHash } from 'crypto';
+import { db } from '@/db';
+import { paymentEvents, refunds } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { getPaymentGateway } from '@/lib/payment-gateway';
+import { markPaymentCaptured, markPaymentFailed } from '@/lib/payments';
+import { markRefundFailed, markRefundProcessed, submitCaptureRefund } from '@/lib/refunds';
+import type { GatewayPayment, PaymentGateway } from '@/lib/payment-gateway.types';
 
-const WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET || '';
+// Our order id travels in the gateway notes set by create-order
+function notesOrderId(notes: Record<string, unknown> | undefined): number | null {
+  const orderId = parseInt(String(notes?.orderId ?? ''));
+  return isNaN(orderId) ? null : orderId;
+}
 
-function verifyWebhookSignature(body: string, signature: string): boolean {
-  if (!WEBHOOK_SECRET) {
-    console.warn('RAZORPAY_WEBHOOK_SECRET not configured');
-    return false;
-  }
-  
-  const hash = createHmac('sha256', WEBHOOK_SECRET)
-    .update(body)
-    .digest('hex');
-  return hash === signature;
+function paymentUpdate(
+  gateway: PaymentGateway,
+  payment: GatewayPayment,
+  orderNotes?: Record<string, unknown>
+) {
+  return {
+    providerOrderId: payment.orderId,
+    providerPaymentId: payment.id,
+    amount: payment.amount / 100, // paise to rupees
+    currency: payment.currency,
+    method: payment.method,
+    errorReason: payment.errorReason,
+    provider: gateway.name,
+    orderId: notesOrderId(payment.notes) ?? notesOrderId(orderNotes),
+  };
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.text();
-    const signature = request.headers.get('x-razorpay-signature');
+    const gateway = getPaymentGateway();
+    const webhook = gateway.parseWebhook(body, request.headers);
+    const { payment, order: gatewayOrder, refund } = webhook;
 
-    if (!signature) {
-      return NextResponse.json(
-        { error: 'Missing signature header' },
-        { status: 400 }
-      );
-    }
+    // Gateways send a unique id per event; redeliveries reuse it
+    const eventId = webhook.eventId ?? createHash('sha256').update(body).digest('hex');
 
-    if (!verifyWebhookSignature(body, signature)) {
-      return NextResponse.json(
-        { error: 'Invalid webhook signature' },
-        { status: 401 }
-      );
-    }
+    let captureRefund: typeof refunds.$inferSelect | undefined;
+
+    const processed = await db.transaction(async (tx) => {
+      const stored = await tx
+        .insert(paymentEvents)
+        .values({
+          eventId,
+          event: webhook.event,
+          providerOrderId: payment?.orderId ?? gatewayOrder?.id ?? null,
+          providerPaymentId: payment?.id ?? refund?.paymentId ?? null,
+          payload: body,
+          receivedAt: new Date().toISOString(),
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      // Already stored: this is a redelivery
+      if (stored.length === 0) {
+        return false;
+      }
 
-    const payload: RazorpayWebhookPayload = JSON.parse(body);
+      // Handle different webhook events
+      switch (webhook.event) {
+        case 'payment.captured':
+        case 'order.paid':
+          if (payment) {
+            const captured = await markPaymentCaptured(tx, paymentUpdate(gateway, payment, gatewayOrder?.notes));
+            captureRefund = captured?.refund;
+          }
+          break;
 
-    // Handle different webhook events
-    switch (payload.event) {
-      case 'payment.captured':
-        console.log('Payment captured:', payload.payload.payment?.entity.id);
-        // TODO: Update your database - mark order as paid
-        break;
+        case 'payment.failed':
+          if (payment) {
+            await markPaymentFailed(tx, paymentUpdate(gateway, payment, gatewayOrder?.notes));
+          }
+          break;
 
-      case 'payment.failed':
-        console.log('Payment failed:', payload.payload.payment?.entity.id);
-        // TODO: Handle failed payment - notify user, update order status
-        break;
+        case 'refund.processed':
+          if (refund) {
+            await markRefundProcessed(tx, refund.id);
+          }
+          break;
 
-      case 'order.paid':
-        console.log('Order paid:', payload.payload.order?.entity.id);
-        // TODO: Fulfill order - update inventory, send confirmation
-        break;
+        case 'refund.failed':
+          if (refund) {
+            await markRefundFailed(tx, refund.id);
+          }
+          break;
 
-      default:
-        console.log('Unknown event:', payload.event);
+        default:
+          console.log('Unhandled event:', webhook.event);
+      }
+
+      await tx
+        .update(paymentEvents)
+        .set({ processedAt: new Date().toISOString() })
+        .where(eq(paymentEvents.id, stored[0].id));
+
+      return true;
+    });
+
+    if (!processed) {
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+
+    // Paid for an order cancelled meanwhile; sent once the capture is stored
+    if (captureRefund) {
+      await submitCaptureRefund(captureRefund);
     }
 
     return NextResponse.json({ received: true });
   } catch (error: unknown) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('Webhook error:', error);
     return NextResponse.json(
       { error: 'Webhook processing failed' },
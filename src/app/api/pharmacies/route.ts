@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { pharmacies } from '@/db/schema';
 import { eq, like, and, or, desc } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertPharmacyAccess, assertSelfOrAdmin, forbidden, requireActor } from '@/lib/authz';
 
 export async function GET(request: NextRequest) {
   try {
@@ -81,6 +83,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
     const body = await request.json();
 
     // Required field validation
@@ -191,10 +195,15 @@ export async function POST(request: NextRequest) {
       updatedAt: now,
     };
 
-    // Optional fields
+    // Pharmacy users register pharmacies they own; admins may set any owner
     if (body.userId !== undefined) {
+      assertSelfOrAdmin(actor, parseInt(body.userId));
       insertData.userId = parseInt(body.userId);
+    } else if (actor.role === 'pharmacy') {
+      insertData.userId = actor.userId;
     }
+
+    // Optional fields
     if (body.openingTime) {
       insertData.openingTime = body.openingTime.trim();
     }
@@ -206,6 +215,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(newPharmacy[0], { status: 201 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('POST error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -216,6 +228,8 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -242,9 +256,16 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    assertPharmacyAccess(actor, existingPharmacy[0].id);
+
     const body = await request.json();
     const updates: any = {};
 
+    // Ownership and ratings are managed by admins
+    if (actor.role !== 'admin' && (body.userId !== undefined || body.rating !== undefined)) {
+      throw forbidden('Only admins can change pharmacy ownership or rating');
+    }
+
     // Sanitize and validate updates
     if (body.pharmacyName !== undefined) {
       updates.pharmacyName = body.pharmacyName.trim();
@@ -364,6 +385,9 @@ export async function PUT(request: NextRequest) {
 
     return NextResponse.json(updatedPharmacy[0], { status: 200 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('PUT error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -374,6 +398,8 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    await requireActor(request, ['admin']);
+
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
 
@@ -413,6 +439,9 @@ export async function DELETE(request: NextRequest) {
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('DELETE error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + (error as Error).message },
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { ApiError } from '@/lib/api-error';
+import { assertSelfOrAdmin, requireActor } from '@/lib/authz';
+import { activePrescriptions } from '@/lib/prescription-refills';
+
+// Verified, unexpired prescriptions the customer can still reorder from,
+// with the refills left on each medicine
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['customer', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId') ?? String(actor.userId);
+
+    if (isNaN(parseInt(userId)) || parseInt(userId) <= 0) {
+      return NextResponse.json({
+        error: 'Valid user ID is required',
+        code: 'INVALID_USER_ID'
+      }, { status: 400 });
+    }
+
+    assertSelfOrAdmin(actor, parseInt(userId));
+
+    const active = await activePrescriptions(db, parseInt(userId));
+
+    return NextResponse.json(active, { status: 200 });
+
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + (error as Error).message
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { orders, prescriptions } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertOrderAccess, assertPrescriptionAccess, requireActor } from '@/lib/authz';
+import { attachPrescriptionRefill } from '@/lib/prescription-review';
+
+// Attach one of the customer's verified prescriptions to a new order as a
+// refill: { prescriptionId, orderId }
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['customer', 'admin']);
+
+    const body = await request.json();
+    const { prescriptionId, orderId } = body;
+
+    if (!prescriptionId || isNaN(parseInt(prescriptionId)) || parseInt(prescriptionId) <= 0) {
+      return NextResponse.json({
+        error: 'Valid prescription ID is required',
+        code: 'INVALID_PRESCRIPTION_ID'
+      }, { status: 400 });
+    }
+
+    if (!orderId || isNaN(parseInt(orderId)) || parseInt(orderId) <= 0) {
+      return NextResponse.json({
+        error: 'Valid order ID is required',
+        code: 'INVALID_ORDER_ID'
+      }, { status: 400 });
+    }
+
+    const prescription = await db.select()
+      .from(prescriptions)
+      .where(eq(prescriptions.id, parseInt(prescriptionId)))
+      .limit(1);
+
+    if (prescription.length === 0) {
+      return NextResponse.json({
+        error: 'Prescription not found',
+        code: 'PRESCRIPTION_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const order = await db.select()
+      .from(orders)
+      .where(eq(orders.id, parseInt(orderId)))
+      .limit(1);
+
+    if (order.length === 0) {
+      return NextResponse.json({
+        error: 'Order not found',
+        code: 'ORDER_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    await assertPrescriptionAccess(actor, prescription[0]);
+    await assertOrderAccess(actor, order[0]);
+
+    if (prescription[0].userId !== order[0].userId) {
+      return NextResponse.json({
+        error: 'Prescription belongs to a different user',
+        code: 'ORDER_USER_MISMATCH'
+      }, { status: 400 });
+    }
+
+    const updated = await db.transaction((tx) =>
+      attachPrescriptionRefill(tx, prescription[0], order[0], actor.userId)
+    );
+
+    return NextResponse.json(updated, { status: 200 });
+
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + (error as Error).message
+    }, { status: 500 });
+  }
+}
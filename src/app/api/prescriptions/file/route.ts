@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { prescriptions } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { actorForUserId, assertPrescriptionAccess, forbidden, requireActor } from '@/lib/authz';
+import { verifyPrescriptionFileUrl } from '@/lib/prescription-files';
+import { getStorage } from '@/lib/storage';
+
+// Serve an uploaded prescription file to its owner, the pharmacy of the
+// order it is attached to, or an admin. Either a session or a signed URL
+// from /api/prescriptions/signed-url is accepted; a signed URL is still
+// refused once the user it was issued to has lost access.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json({
+        error: 'Valid ID is required',
+        code: 'INVALID_ID'
+      }, { status: 400 });
+    }
+
+    let actor;
+    if (searchParams.has('signature')) {
+      const signed = verifyPrescriptionFileUrl(searchParams);
+      if (!signed || signed.prescriptionId !== parseInt(id)) {
+        throw new ApiError('Link is invalid or has expired', 'INVALID_SIGNATURE', 403);
+      }
+      actor = await actorForUserId(signed.userId);
+      if (!actor) {
+        throw forbidden();
+      }
+    } else {
+      actor = await requireActor(request, ['customer', 'pharmacy', 'admin']);
+    }
+
+    const prescription = await db.select()
+      .from(prescriptions)
+      .where(eq(prescriptions.id, parseInt(id)))
+      .limit(1);
+
+    if (prescription.length === 0) {
+      return NextResponse.json({
+        error: 'Prescription not found',
+        code: 'PRESCRIPTION_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    await assertPrescriptionAccess(actor, prescription[0]);
+
+    const stored = prescription[0].fileKey ? await getStorage().get(prescription[0].fileKey) : null;
+
+    if (!stored) {
+      return NextResponse.json({
+        error: 'Prescription has no uploaded file',
+        code: 'FILE_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const fileName = (prescription[0].fileName ?? 'prescription').replace(/[^\w.\- ]/g, '_');
+
+    return new NextResponse(Buffer.from(stored.data), {
+      status: 200,
+      headers: {
+        'Content-Type': stored.contentType,
+        'Content-Length': String(stored.data.byteLength),
+        'Content-Disposition': `inline; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + (error as Error).message
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { prescriptions } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertPrescriptionAccess, requireActor } from '@/lib/authz';
+import { getOcrEngine } from '@/lib/ocr';
+import { prescriptionSuggestionList, saveSuggestions, suggestCart } from '@/lib/prescription-parsing';
+import { getStorage } from '@/lib/storage';
+
+// Read the uploaded prescription file and suggest a cart from it. Each
+// line of text is matched against the catalog; the response lists what was
+// read, what it matched and with what confidence. The suggestions are kept
+// on the prescription until the pharmacist confirms or dismisses them via
+// /api/prescriptions/review.
+export async function POST(request: NextRequest) {
+  try {
+    // OCR is slow, so only the pharmacist reviewing the prescription runs it
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json({
+        error: 'Valid ID is required',
+        code: 'INVALID_ID'
+      }, { status: 400 });
+    }
+
+    const existing = await db.select()
+      .from(prescriptions)
+      .where(eq(prescriptions.id, parseInt(id)))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return NextResponse.json({
+        error: 'Prescription not found',
+        code: 'PRESCRIPTION_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    await assertPrescriptionAccess(actor, existing[0]);
+
+    if (existing[0].status !== 'pending') {
+      return NextResponse.json({
+        error: 'Only a prescription awaiting review can be parsed',
+        code: 'PRESCRIPTION_NOT_PENDING',
+        status: existing[0].status
+      }, { status: 409 });
+    }
+
+    const stored = existing[0].fileKey ? await getStorage().get(existing[0].fileKey) : null;
+
+    if (!stored) {
+      return NextResponse.json({
+        error: 'Prescription has no uploaded file',
+        code: 'FILE_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const result = await getOcrEngine().recognize(stored.data, stored.contentType);
+
+    const { lines, cart } = await db.transaction(async (tx) => {
+      const suggested = await suggestCart(tx, result.lines);
+      await saveSuggestions(tx, existing[0].id, result.text, suggested.cart);
+      return suggested;
+    });
+
+    const suggestions = await prescriptionSuggestionList(db, existing[0].id);
+
+    return NextResponse.json({
+      prescriptionId: existing[0].id,
+      text: result.text,
+      lines,
+      cart,
+      suggestions
+    }, { status: 200 });
+
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + (error as Error).message
+    }, { status: 500 });
+  }
+}
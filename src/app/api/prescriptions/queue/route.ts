@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { orders, prescriptions } from '@/db/schema';
+import { eq, and, ne, asc, getTableColumns } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertPharmacyAccess, requireActor } from '@/lib/authz';
+import { prescriptionLines } from '@/lib/prescription-review';
+
+// Prescriptions waiting for a pharmacy's review, oldest first, with the
+// order and the prescription-only lines to decide
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    const pharmacyId = searchParams.get('pharmacyId');
+    const limit = Math.min(parseInt(searchParams.get('limit') ?? '20'), 100);
+    const offset = parseInt(searchParams.get('offset') ?? '0');
+
+    if (!pharmacyId || isNaN(parseInt(pharmacyId))) {
+      return NextResponse.json({
+        error: 'Valid pharmacy ID is required',
+        code: 'INVALID_PHARMACY_ID'
+      }, { status: 400 });
+    }
+
+    assertPharmacyAccess(actor, parseInt(pharmacyId));
+
+    const queue = await db.select({
+      ...getTableColumns(prescriptions),
+      order: {
+        id: orders.id,
+        orderNumber: orders.orderNumber,
+        status: orders.status,
+        paymentMethod: orders.paymentMethod,
+        paymentStatus: orders.paymentStatus,
+        createdAt: orders.createdAt,
+      },
+    })
+      .from(prescriptions)
+      .innerJoin(orders, eq(prescriptions.orderId, orders.id))
+      .where(
+        and(
+          eq(orders.pharmacyId, parseInt(pharmacyId)),
+          eq(prescriptions.status, 'pending'),
+          ne(orders.status, 'cancelled')
+        )
+      )
+      .orderBy(asc(prescriptions.uploadedAt), asc(prescriptions.id))
+      .limit(limit)
+      .offset(offset);
+
+    const lines = await prescriptionLines(db, queue.map((entry) => entry.id));
+
+    return NextResponse.json(queue.map((entry) => ({
+      ...entry,
+      items: lines.filter((line) => line.prescriptionId === entry.id)
+    })), { status: 200 });
+
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + (error as Error).message
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,295 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { orders, prescriptions } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertPrescriptionAccess, requireActor } from '@/lib/authz';
+import { isValidIsoDate, todayIso } from '@/lib/inventory-batches';
+import { handleOrderCancelled } from '@/lib/order-cancellation';
+import { prescriptionSuggestionList } from '@/lib/prescription-parsing';
+import {
+  prescriptionLines,
+  requestResubmission,
+  reviewPrescriptionLines,
+  reviewSuggestions,
+  type LineDecision,
+  type SuggestionDecision
+} from '@/lib/prescription-review';
+import { MAX_REFILLS } from '@/lib/prescription-refills';
+import { refundOrderItems } from '@/lib/refunds';
+
+const REVIEW_ACTIONS = ['review', 'request_resubmission', 'confirm_suggestions'];
+
+// Review a prescription attached to an order. `review` approves or rejects
+// lines: { action, items: [{ orderItemId, status, notes, refillsAllowed }],
+// issuedAt, expiresAt }; rejected lines need a note. `request_resubmission`
+// sends the prescription back to the customer: { action, notes }.
+// `confirm_suggestions` settles the cart read from the prescription by OCR:
+// { action, suggestions: [{ id, status, medicineId, quantity }] }.
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['pharmacy', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json({
+        error: 'Valid ID is required',
+        code: 'INVALID_ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { action, items, suggestions, notes, issuedAt, expiresAt } = body;
+
+    if (!REVIEW_ACTIONS.includes(action)) {
+      return NextResponse.json({
+        error: `action must be one of: ${REVIEW_ACTIONS.join(', ')}`,
+        code: 'INVALID_ACTION'
+      }, { status: 400 });
+    }
+
+    if (notes !== undefined && notes !== null && typeof notes !== 'string') {
+      return NextResponse.json({
+        error: 'notes must be a string',
+        code: 'INVALID_NOTES'
+      }, { status: 400 });
+    }
+
+    const today = todayIso();
+
+    if (issuedAt !== undefined && issuedAt !== null && (!isValidIsoDate(issuedAt) || issuedAt > today)) {
+      return NextResponse.json({
+        error: 'issuedAt must be a past date in YYYY-MM-DD format',
+        code: 'INVALID_ISSUE_DATE'
+      }, { status: 400 });
+    }
+
+    if (expiresAt !== undefined && expiresAt !== null) {
+      if (!isValidIsoDate(expiresAt) || expiresAt < today) {
+        return NextResponse.json({
+          error: 'expiresAt must be today or a later date in YYYY-MM-DD format',
+          code: 'INVALID_EXPIRY_DATE'
+        }, { status: 400 });
+      }
+
+      if (issuedAt && expiresAt < issuedAt) {
+        return NextResponse.json({
+          error: 'expiresAt cannot be before issuedAt',
+          code: 'INVALID_EXPIRY_DATE'
+        }, { status: 400 });
+      }
+    }
+
+    const decisions: LineDecision[] = [];
+    if (action === 'review') {
+      if (!Array.isArray(items) || items.length === 0) {
+        return NextResponse.json({
+          error: 'items must be a non-empty array of line decisions',
+          code: 'MISSING_ITEMS'
+        }, { status: 400 });
+      }
+
+      for (const item of items) {
+        const orderItemId = parseInt(item?.orderItemId);
+        if (isNaN(orderItemId) || orderItemId <= 0) {
+          return NextResponse.json({
+            error: 'Each item needs a valid orderItemId',
+            code: 'INVALID_ORDER_ITEM_ID'
+          }, { status: 400 });
+        }
+
+        if (item.status !== 'approved' && item.status !== 'rejected') {
+          return NextResponse.json({
+            error: 'Each item status must be approved or rejected',
+            code: 'INVALID_ITEM_STATUS'
+          }, { status: 400 });
+        }
+
+        const itemNotes = typeof item.notes === 'string' ? item.notes.trim() : '';
+        if (item.status === 'rejected' && itemNotes === '') {
+          return NextResponse.json({
+            error: 'A rejected line needs a note for the customer',
+            code: 'MISSING_NOTES',
+            orderItemId
+          }, { status: 400 });
+        }
+
+        if (decisions.some((decision) => decision.orderItemId === orderItemId)) {
+          return NextResponse.json({
+            error: 'Each order item can only be decided once',
+            code: 'DUPLICATE_ORDER_ITEM',
+            orderItemId
+          }, { status: 400 });
+        }
+
+        const refillsAllowed = item.refillsAllowed ?? 0;
+        if (!Number.isInteger(refillsAllowed) || refillsAllowed < 0 || refillsAllowed > MAX_REFILLS) {
+          return NextResponse.json({
+            error: `refillsAllowed must be a whole number from 0 to ${MAX_REFILLS}`,
+            code: 'INVALID_REFILLS',
+            orderItemId
+          }, { status: 400 });
+        }
+
+        decisions.push({ orderItemId, status: item.status, notes: itemNotes || null, refillsAllowed });
+      }
+    }
+
+    const suggestionDecisions: SuggestionDecision[] = [];
+    if (action === 'confirm_suggestions') {
+      if (!Array.isArray(suggestions) || suggestions.length === 0) {
+        return NextResponse.json({
+          error: 'suggestions must be a non-empty array of suggestion decisions',
+          code: 'MISSING_SUGGESTIONS'
+        }, { status: 400 });
+      }
+
+      for (const suggestion of suggestions) {
+        const suggestionId = parseInt(suggestion?.id);
+        if (isNaN(suggestionId) || suggestionId <= 0) {
+          return NextResponse.json({
+            error: 'Each suggestion needs a valid id',
+            code: 'INVALID_SUGGESTION_ID'
+          }, { status: 400 });
+        }
+
+        if (suggestion.status !== 'confirmed' && suggestion.status !== 'dismissed') {
+          return NextResponse.json({
+            error: 'Each suggestion status must be confirmed or dismissed',
+            code: 'INVALID_SUGGESTION_STATUS',
+            suggestionId
+          }, { status: 400 });
+        }
+
+        if (suggestion.medicineId !== undefined && (!Number.isInteger(suggestion.medicineId) || suggestion.medicineId <= 0)) {
+          return NextResponse.json({
+            error: 'medicineId must be a positive integer',
+            code: 'INVALID_MEDICINE_ID',
+            suggestionId
+          }, { status: 400 });
+        }
+
+        if (suggestion.quantity !== undefined && (!Number.isInteger(suggestion.quantity) || suggestion.quantity <= 0)) {
+          return NextResponse.json({
+            error: 'quantity must be a positive integer',
+            code: 'INVALID_QUANTITY',
+            suggestionId
+          }, { status: 400 });
+        }
+
+        if (suggestionDecisions.some((decision) => decision.id === suggestionId)) {
+          return NextResponse.json({
+            error: 'Each suggestion can only be decided once',
+            code: 'DUPLICATE_SUGGESTION',
+            suggestionId
+          }, { status: 400 });
+        }
+
+        suggestionDecisions.push({
+          id: suggestionId,
+          status: suggestion.status,
+          medicineId: suggestion.medicineId,
+          quantity: suggestion.quantity
+        });
+      }
+    }
+
+    if (action === 'request_resubmission' && (!notes || notes.trim() === '')) {
+      return NextResponse.json({
+        error: 'Tell the customer why the prescription needs to be uploaded again',
+        code: 'MISSING_NOTES'
+      }, { status: 400 });
+    }
+
+    const existing = await db.select()
+      .from(prescriptions)
+      .where(eq(prescriptions.id, parseInt(id)))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return NextResponse.json({
+        error: 'Prescription not found',
+        code: 'PRESCRIPTION_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    await assertPrescriptionAccess(actor, existing[0]);
+
+    if (action === 'confirm_suggestions') {
+      await db.transaction((tx) => reviewSuggestions(tx, existing[0], suggestionDecisions, actor.userId));
+      const reviewed = await prescriptionSuggestionList(db, existing[0].id);
+      return NextResponse.json({ ...existing[0], suggestions: reviewed }, { status: 200 });
+    }
+
+    if (action === 'request_resubmission') {
+      const prescription = await db.transaction((tx) => requestResubmission(tx, existing[0], notes.trim()));
+      const lines = await prescriptionLines(db, [prescription.id]);
+      return NextResponse.json({ ...prescription, items: lines }, { status: 200 });
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      const result = await reviewPrescriptionLines(tx, existing[0], decisions, actor.userId, { issuedAt, expiresAt });
+      if (notes !== undefined) {
+        const [annotated] = await tx.update(prescriptions)
+          .set({ verificationNotes: notes !== null ? notes.trim() : null })
+          .where(eq(prescriptions.id, result.prescription.id))
+          .returning();
+        result.prescription = annotated;
+      }
+      return result;
+    });
+
+    // Money is returned once the review is committed, each line's refund
+    // recorded before the gateway is asked for it; a failed refund is
+    // reported rather than undoing the review, and is retried through
+    // /api/payment/refund
+    let refund = null;
+    let refundError: string | null = null;
+
+    if (outcome.cancelled && outcome.order) {
+      ({ refund, refundError } = await handleOrderCancelled(outcome.order));
+    } else if (
+      outcome.order &&
+      outcome.rejectedItems.length > 0 &&
+      ['paid', 'partially_refunded'].includes(outcome.order.paymentStatus)
+    ) {
+      try {
+        refund = await refundOrderItems(outcome.order, outcome.rejectedItems, 'Prescription line rejected');
+      } catch (error) {
+        console.error('Refund for rejected prescription lines failed for order', outcome.order.id, error);
+        refundError = (error as Error).message;
+        // Lines the gateway did refund are still reported
+        if (error instanceof ApiError && error.code === 'REFUND_FAILED') {
+          refund = error.details?.refunds ?? null;
+        }
+      }
+    }
+
+    const lines = await prescriptionLines(db, [outcome.prescription.id]);
+
+    // A refund changes the order's payment status
+    let order = outcome.order;
+    if (order && refund) {
+      [order] = await db.select().from(orders).where(eq(orders.id, order.id));
+    }
+
+    return NextResponse.json({
+      ...outcome.prescription,
+      items: lines,
+      order,
+      ...(refund ? { refund } : {}),
+      ...(refundError ? { refundError } : {})
+    }, { status: 200 });
+
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + (error as Error).message
+    }, { status: 500 });
+  }
+}
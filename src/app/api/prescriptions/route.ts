@@ -2,9 +2,27 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { prescriptions, users, orders, pharmacies } from '@/db/schema';
 import { eq, and, or, desc } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import {
+  assertOrderAccess,
+  assertPharmacyAccess,
+  assertPrescriptionAccess,
+  assertSelfOrAdmin,
+  forbidden,
+  prescriptionScope,
+  requireActor
+} from '@/lib/authz';
+import { prescriptionSuggestionList } from '@/lib/prescription-parsing';
+import { PRESCRIPTION_STATUSES, linkPrescriptionToOrder, prescriptionLines } from '@/lib/prescription-review';
+import { getStorage } from '@/lib/storage';
+
+// Fields only the verifying pharmacy (or an admin) may set
+const VERIFICATION_FIELDS = ['verifiedBy', 'isVerified', 'verificationNotes', 'verifiedAt'];
 
 export async function GET(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['customer', 'pharmacy', 'admin']);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -29,7 +47,12 @@ export async function GET(request: NextRequest) {
         }, { status: 404 });
       }
 
-      return NextResponse.json(prescription[0], { status: 200 });
+      await assertPrescriptionAccess(actor, prescription[0]);
+
+      const items = await prescriptionLines(db, [prescription[0].id]);
+      const suggestions = await prescriptionSuggestionList(db, prescription[0].id);
+
+      return NextResponse.json({ ...prescription[0], items, suggestions }, { status: 200 });
     }
 
     // List prescriptions with filtering and pagination
@@ -38,11 +61,17 @@ export async function GET(request: NextRequest) {
     const userId = searchParams.get('userId');
     const orderId = searchParams.get('orderId');
     const isVerified = searchParams.get('isVerified');
+    const status = searchParams.get('status');
 
     let query = db.select().from(prescriptions);
 
-    // Build filter conditions
+    // Build filter conditions, limited to prescriptions the caller may see
     const conditions = [];
+
+    const scope = prescriptionScope(actor);
+    if (scope) {
+      conditions.push(scope);
+    }
     
     if (userId) {
       if (isNaN(parseInt(userId))) {
@@ -69,6 +98,16 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(prescriptions.isVerified, verified));
     }
 
+    if (status) {
+      if (!PRESCRIPTION_STATUSES.includes(status as typeof PRESCRIPTION_STATUSES[number])) {
+        return NextResponse.json({ 
+          error: `Invalid status. Must be one of: ${PRESCRIPTION_STATUSES.join(', ')}`,
+          code: "INVALID_STATUS" 
+        }, { status: 400 });
+      }
+      conditions.push(eq(prescriptions.status, status));
+    }
+
     if (conditions.length > 0) {
       query = query.where(and(...conditions));
     }
@@ -81,6 +120,9 @@ export async function GET(request: NextRequest) {
     return NextResponse.json(results, { status: 200 });
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('GET error:', error);
     return NextResponse.json({ 
       error: 'Internal server error: ' + (error as Error).message 
@@ -90,8 +132,15 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['customer', 'admin']);
+
     const body = await request.json();
-    const { userId, orderId, prescriptionUrl, verifiedBy, isVerified, verificationNotes, verifiedAt } = body;
+    const { userId = actor.userId, orderId, prescriptionUrl, verifiedBy, isVerified, verificationNotes, verifiedAt } = body;
+
+    // Customers upload their own prescriptions, unverified
+    if (actor.role !== 'admin' && VERIFICATION_FIELDS.some((field) => body[field] !== undefined)) {
+      throw forbidden('Only a pharmacy can verify a prescription');
+    }
 
     // Validate required fields
     if (!userId) {
@@ -116,6 +165,8 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    assertSelfOrAdmin(actor, parseInt(userId));
+
     // Basic validation - check if user exists
     const userExists = await db.select()
       .from(users)
@@ -149,6 +200,8 @@ export async function POST(request: NextRequest) {
           code: "ORDER_NOT_FOUND" 
         }, { status: 400 });
       }
+
+      await assertOrderAccess(actor, orderExists[0]);
     }
 
     // Validate verifiedBy if provided
@@ -178,6 +231,7 @@ export async function POST(request: NextRequest) {
       userId: parseInt(userId),
       prescriptionUrl: prescriptionUrl.trim(),
       isVerified: isVerified ?? false,
+      status: isVerified ? 'verified' : 'pending',
       uploadedAt: new Date().toISOString(),
     };
 
@@ -197,13 +251,22 @@ export async function POST(request: NextRequest) {
       insertData.verifiedAt = verifiedAt;
     }
 
-    const newPrescription = await db.insert(prescriptions)
-      .values(insertData)
-      .returning();
+    const newPrescription = await db.transaction(async (tx) => {
+      const created = await tx.insert(prescriptions)
+        .values(insertData)
+        .returning();
+      if (created[0].orderId !== null && created[0].status === 'pending') {
+        await linkPrescriptionToOrder(tx, created[0].id, created[0].orderId);
+      }
+      return created;
+    });
 
     return NextResponse.json(newPrescription[0], { status: 201 });
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('POST error:', error);
     return NextResponse.json({ 
       error: 'Internal server error: ' + (error as Error).message 
@@ -213,6 +276,8 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['customer', 'pharmacy', 'admin']);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -239,6 +304,40 @@ export async function PUT(request: NextRequest) {
       }, { status: 404 });
     }
 
+    await assertPrescriptionAccess(actor, existing[0]);
+
+    // Customers may only attach their unverified prescription to an order;
+    // verification is left to the pharmacy
+    if (actor.role === 'customer') {
+      if (VERIFICATION_FIELDS.some((field) => body[field] !== undefined)) {
+        throw forbidden('Only a pharmacy can verify a prescription');
+      }
+      if (existing[0].isVerified) {
+        throw forbidden('Verified prescriptions cannot be changed');
+      }
+    }
+
+    // Prescriptions covering order lines are verified per line instead
+    if (isVerified !== undefined) {
+      const lines = await prescriptionLines(db, [existing[0].id]);
+      if (lines.length > 0) {
+        return NextResponse.json({ 
+          error: "This prescription covers order lines; review it through /api/prescriptions/review",
+          code: "LINE_REVIEW_REQUIRED" 
+        }, { status: 409 });
+      }
+    }
+
+    // Pharmacies verify on their own behalf and cannot move prescriptions between orders
+    if (actor.role === 'pharmacy') {
+      if (orderId !== undefined) {
+        throw forbidden('Pharmacies cannot reassign prescriptions');
+      }
+      if (verifiedBy !== undefined && verifiedBy !== null) {
+        assertPharmacyAccess(actor, parseInt(verifiedBy));
+      }
+    }
+
     // Validate orderId if provided
     if (orderId !== undefined && orderId !== null) {
       if (isNaN(parseInt(orderId)) || parseInt(orderId) <= 0) {
@@ -259,6 +358,8 @@ export async function PUT(request: NextRequest) {
           code: "ORDER_NOT_FOUND" 
         }, { status: 400 });
       }
+
+      await assertOrderAccess(actor, orderExists[0]);
     }
 
     // Validate verifiedBy if provided
@@ -296,6 +397,7 @@ export async function PUT(request: NextRequest) {
 
     if (isVerified !== undefined) {
       updateData.isVerified = isVerified;
+      updateData.status = isVerified ? 'verified' : 'pending';
       
       // Auto-update verifiedAt if isVerified changes to true and verifiedAt is not already set
       if (isVerified === true && !existing[0].verifiedAt && verifiedAt === undefined) {
@@ -311,14 +413,23 @@ export async function PUT(request: NextRequest) {
       updateData.verifiedAt = verifiedAt;
     }
 
-    const updated = await db.update(prescriptions)
-      .set(updateData)
-      .where(eq(prescriptions.id, parseInt(id)))
-      .returning();
+    const updated = await db.transaction(async (tx) => {
+      const result = await tx.update(prescriptions)
+        .set(updateData)
+        .where(eq(prescriptions.id, parseInt(id)))
+        .returning();
+      if (orderId !== undefined && result[0].orderId !== existing[0].orderId) {
+        await linkPrescriptionToOrder(tx, result[0].id, result[0].orderId);
+      }
+      return result;
+    });
 
     return NextResponse.json(updated[0], { status: 200 });
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('PUT error:', error);
     return NextResponse.json({ 
       error: 'Internal server error: ' + (error as Error).message 
@@ -328,6 +439,8 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const actor = await requireActor(request, ['customer', 'admin']);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -351,16 +464,30 @@ export async function DELETE(request: NextRequest) {
       }, { status: 404 });
     }
 
+    // Customers can withdraw their own prescription until it is verified
+    if (actor.role === 'customer' && (existing[0].userId !== actor.userId || existing[0].isVerified)) {
+      throw forbidden();
+    }
+
     const deleted = await db.delete(prescriptions)
       .where(eq(prescriptions.id, parseInt(id)))
       .returning();
 
+    if (deleted[0].fileKey) {
+      await getStorage().delete(deleted[0].fileKey).catch((error) => {
+        console.error('Failed to remove prescription file', deleted[0].fileKey, error);
+      });
+    }
+
     return NextResponse.json({ 
       message: 'Prescription deleted successfully',
       prescription: deleted[0]
     }, { status: 200 });
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('DELETE error:', error);
     return NextResponse.json({ 
       error: 'Internal server error: ' + (error as Error).message 
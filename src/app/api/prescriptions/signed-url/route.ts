@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { prescriptions } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertPrescriptionAccess, requireActor } from '@/lib/authz';
+import { signPrescriptionFileUrl } from '@/lib/prescription-files';
+
+// A short-lived link to a prescription's file that works without a session,
+// issued only to callers who may see the prescription
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['customer', 'pharmacy', 'admin']);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json({
+        error: 'Valid ID is required',
+        code: 'INVALID_ID'
+      }, { status: 400 });
+    }
+
+    const prescription = await db.select()
+      .from(prescriptions)
+      .where(eq(prescriptions.id, parseInt(id)))
+      .limit(1);
+
+    if (prescription.length === 0) {
+      return NextResponse.json({
+        error: 'Prescription not found',
+        code: 'PRESCRIPTION_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    await assertPrescriptionAccess(actor, prescription[0]);
+
+    if (!prescription[0].fileKey) {
+      return NextResponse.json({
+        error: 'Prescription has no uploaded file',
+        code: 'FILE_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json(signPrescriptionFileUrl(prescription[0].id, actor.userId), { status: 200 });
+
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + (error as Error).message
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { prescriptions, users, orders } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { assertOrderAccess, assertSelfOrAdmin, requireActor } from '@/lib/authz';
+import {
+  MAX_PRESCRIPTION_FILE_BYTES,
+  detectPrescriptionFileType,
+  prescriptionFileKey,
+  prescriptionFilePath
+} from '@/lib/prescription-files';
+import { linkPrescriptionToOrder } from '@/lib/prescription-review';
+import { getStorage } from '@/lib/storage';
+
+// Upload a prescription image (JPEG, PNG, WebP) or PDF as multipart form
+// data: `file`, plus optional `orderId` and, for admins, `userId`. The file
+// is only ever served through /api/prescriptions/file.
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor(request, ['customer', 'admin']);
+
+    const contentType = request.headers.get('content-type') ?? '';
+    if (!contentType.startsWith('multipart/form-data')) {
+      return NextResponse.json({
+        error: 'Upload the prescription as multipart/form-data',
+        code: 'INVALID_CONTENT_TYPE'
+      }, { status: 415 });
+    }
+
+    const form = await request.formData();
+    const file = form.get('file');
+    const userId = form.get('userId') ?? String(actor.userId);
+    const orderId = form.get('orderId');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({
+        error: 'A prescription file is required in the "file" field',
+        code: 'MISSING_FILE'
+      }, { status: 400 });
+    }
+
+    if (file.size === 0) {
+      return NextResponse.json({
+        error: 'Prescription file is empty',
+        code: 'EMPTY_FILE'
+      }, { status: 400 });
+    }
+
+    if (file.size > MAX_PRESCRIPTION_FILE_BYTES) {
+      return NextResponse.json({
+        error: `Prescription file must be at most ${MAX_PRESCRIPTION_FILE_BYTES / (1024 * 1024)} MB`,
+        code: 'FILE_TOO_LARGE'
+      }, { status: 413 });
+    }
+
+    if (typeof userId !== 'string' || isNaN(parseInt(userId)) || parseInt(userId) <= 0) {
+      return NextResponse.json({
+        error: 'Valid user ID is required',
+        code: 'INVALID_USER_ID'
+      }, { status: 400 });
+    }
+
+    assertSelfOrAdmin(actor, parseInt(userId));
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    const fileType = detectPrescriptionFileType(data);
+
+    if (!fileType) {
+      return NextResponse.json({
+        error: 'Prescription must be a JPEG, PNG or WebP image or a PDF',
+        code: 'UNSUPPORTED_FILE_TYPE'
+      }, { status: 415 });
+    }
+
+    const userExists = await db.select()
+      .from(users)
+      .where(eq(users.id, parseInt(userId)))
+      .limit(1);
+
+    if (userExists.length === 0) {
+      return NextResponse.json({
+        error: 'User not found',
+        code: 'USER_NOT_FOUND'
+      }, { status: 400 });
+    }
+
+    if (orderId !== null) {
+      if (typeof orderId !== 'string' || isNaN(parseInt(orderId)) || parseInt(orderId) <= 0) {
+        return NextResponse.json({
+          error: 'Valid order ID is required',
+          code: 'INVALID_ORDER_ID'
+        }, { status: 400 });
+      }
+
+      const orderExists = await db.select()
+        .from(orders)
+        .where(eq(orders.id, parseInt(orderId)))
+        .limit(1);
+
+      if (orderExists.length === 0) {
+        return NextResponse.json({
+          error: 'Order not found',
+          code: 'ORDER_NOT_FOUND'
+        }, { status: 400 });
+      }
+
+      await assertOrderAccess(actor, orderExists[0]);
+
+      if (orderExists[0].userId !== parseInt(userId)) {
+        return NextResponse.json({
+          error: 'Order belongs to a different user',
+          code: 'ORDER_USER_MISMATCH'
+        }, { status: 400 });
+      }
+    }
+
+    // Store the file first; if recording it fails the file is removed again
+    const storage = getStorage();
+    const fileKey = prescriptionFileKey(parseInt(userId), fileType.extension);
+    await storage.put(fileKey, data, fileType.contentType);
+
+    try {
+      const prescription = await db.transaction(async (tx) => {
+        const [created] = await tx.insert(prescriptions)
+          .values({
+            userId: parseInt(userId),
+            orderId: orderId !== null ? parseInt(orderId) : null,
+            prescriptionUrl: '',
+            fileKey,
+            fileName: file.name.slice(0, 255) || `prescription.${fileType.extension}`,
+            contentType: fileType.contentType,
+            fileSize: file.size,
+            isVerified: false,
+            uploadedAt: new Date().toISOString(),
+          })
+          .returning();
+
+        const [updated] = await tx.update(prescriptions)
+          .set({ prescriptionUrl: prescriptionFilePath(created.id) })
+          .where(eq(prescriptions.id, created.id))
+          .returning();
+        await linkPrescriptionToOrder(tx, updated.id, updated.orderId);
+        return updated;
+      });
+
+      return NextResponse.json(prescription, { status: 201 });
+    } catch (error) {
+      await storage.delete(fileKey).catch((cleanupError) => {
+        console.error('Failed to remove orphaned prescription file', fileKey, cleanupError);
+      });
+      throw error;
+    }
+
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + (error as Error).message
+    }, { status: 500 });
+  }
+}
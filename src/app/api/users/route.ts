@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { users } from '@/db/schema';
 import { eq, like, and, or, desc } from 'drizzle-orm';
+import { ApiError } from '@/lib/api-error';
+import { USER_ROLES, assertSelfOrAdmin, forbidden, isAdmin, requireActor } from '@/lib/authz';
 
-const VALID_ROLES = ['customer', 'pharmacy', 'delivery'];
+const VALID_ROLES: readonly string[] = USER_ROLES;
 
 function validateEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -25,6 +27,8 @@ function validateCoordinate(value: any, type: 'latitude' | 'longitude'): boolean
 
 export async function GET(request: NextRequest) {
   try {
+    const actor = await requireActor(request);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -36,6 +40,8 @@ export async function GET(request: NextRequest) {
         );
       }
 
+      assertSelfOrAdmin(actor, parseInt(id));
+
       const user = await db
         .select()
         .from(users)
@@ -52,6 +58,11 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(user[0], { status: 200 });
     }
 
+    // Only admins can list users
+    if (!isAdmin(actor)) {
+      throw forbidden();
+    }
+
     const limit = Math.min(parseInt(searchParams.get('limit') ?? '10'), 100);
     const offset = parseInt(searchParams.get('offset') ?? '0');
     const search = searchParams.get('search');
@@ -95,6 +106,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(results, { status: 200 });
   } catch (error: any) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('GET error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + error.message },
@@ -105,6 +119,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    await requireActor(request, ['admin']);
+
     const body = await request.json();
     const { name, email, phone, role, address, latitude, longitude } = body;
 
@@ -207,6 +223,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(newUser[0], { status: 201 });
   } catch (error: any) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('POST error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + error.message },
@@ -217,6 +236,8 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const actor = await requireActor(request);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -240,9 +261,16 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    assertSelfOrAdmin(actor, existingUser[0].id);
+
     const body = await request.json();
     const { name, email, phone, role, address, latitude, longitude } = body;
 
+    // Role and login email are managed by admins
+    if (!isAdmin(actor) && (role !== undefined || email !== undefined)) {
+      throw forbidden('Only admins can change a user\'s role or email');
+    }
+
     const updates: any = {
       updatedAt: new Date().toISOString(),
     };
@@ -344,6 +372,9 @@ export async function PUT(request: NextRequest) {
 
     return NextResponse.json(updated[0], { status: 200 });
   } catch (error: any) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('PUT error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + error.message },
@@ -354,6 +385,8 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    await requireActor(request, ['admin']);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -390,6 +423,9 @@ export async function DELETE(request: NextRequest) {
       { status: 200 }
     );
   } catch (error: any) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('DELETE error:', error);
     return NextResponse.json(
       { error: 'Internal server error: ' + error.message },
@@ -1,33 +1,126 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { use, useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { Header } from '@/components/Header';
 import { RazorpayCheckout } from '@/components/RazorpayCheckout';
-import { useSession } from '@/lib/auth-client';
+import { authHeaders, useSession } from '@/lib/auth-client';
 import type { CheckoutResponse } from '@/lib/razorpay.types';
-import { ShoppingCart, Package, CheckCircle2, AlertCircle } from 'lucide-react';
+import { ShoppingCart, Package, CheckCircle2, AlertCircle, Banknote } from 'lucide-react';
 
-export default function CheckoutPage() {
+interface CheckoutOrder {
+  id: number;
+  orderNumber: string;
+  totalAmount: number;
+  deliveryFee: number | null;
+  deliveryAddress: string;
+  estimatedDeliveryTime: number | null;
+  paymentMethod: 'online' | 'cod';
+  paymentStatus: string;
+}
+
+interface CheckoutItem {
+  id: number;
+  medicineId: number;
+  name: string;
+  unit: string;
+  quantity: number;
+  discount: number;
+  subtotal: number;
+}
+
+const CHECKOUT_ROLES = ['customer', 'admin'];
+
+export default function CheckoutPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ orderId?: string }>;
+}) {
+  const { orderId } = use(searchParams);
   const router = useRouter();
   const { data: session, isPending } = useSession();
   const [paymentSuccess, setPaymentSuccess] = useState(false);
   const [paymentData, setPaymentData] = useState<CheckoutResponse | null>(null);
-  const [cartTotal, setCartTotal] = useState(499);
+  const [order, setOrder] = useState<CheckoutOrder | null>(null);
+  const [items, setItems] = useState<CheckoutItem[]>([]);
+  const [orderLoading, setOrderLoading] = useState(true);
 
   // Redirect if not authenticated
   useEffect(() => {
     if (!isPending && !session?.user) {
-      router.push('/login?redirect=/checkout');
+      const redirect = orderId ? `/checkout?orderId=${orderId}` : '/checkout';
+      router.push(`/login?redirect=${encodeURIComponent(redirect)}`);
     }
   }, [session, isPending, router]);
 
+  // Load the order being paid for; totals always come from the server
+  useEffect(() => {
+    if (!session?.user || !orderId) {
+      setOrderLoading(false);
+      return;
+    }
+
+    const loadOrder = async () => {
+      try {
+        // Only customers pay for orders (admins may act for them)
+        const meResponse = await fetch('/api/me', { headers: authHeaders() });
+        const me = meResponse.ok ? await meResponse.json() : null;
+        if (!me || !CHECKOUT_ROLES.includes(me.role)) {
+          router.replace('/forbidden');
+          return;
+        }
+
+        const orderResponse = await fetch(`/api/orders?id=${orderId}`, { headers: authHeaders() });
+        if (!orderResponse.ok) {
+          setOrder(null);
+          return;
+        }
+        const orderData: CheckoutOrder = await orderResponse.json();
+
+        const itemsResponse = await fetch(`/api/order-items?orderId=${orderId}&limit=100`, {
+          headers: authHeaders(),
+        });
+        const orderItems = itemsResponse.ok ? await itemsResponse.json() : [];
+
+        const detailedItems: CheckoutItem[] = await Promise.all(
+          orderItems.map(async (item: any) => {
+            const medicineResponse = await fetch(`/api/medicines?id=${item.medicineId}`);
+            const medicine = medicineResponse.ok ? await medicineResponse.json() : null;
+            return {
+              id: item.id,
+              medicineId: item.medicineId,
+              name: medicine?.name ?? `Medicine #${item.medicineId}`,
+              unit: medicine?.unit ?? '',
+              quantity: item.quantity,
+              discount: item.discount ?? 0,
+              subtotal: item.subtotal,
+            };
+          })
+        );
+
+        setOrder(orderData);
+        setItems(detailedItems);
+      } catch (err) {
+        console.error('Failed to load order:', err);
+        setOrder(null);
+      } finally {
+        setOrderLoading(false);
+      }
+    };
+
+    loadOrder();
+  }, [session, orderId]);
+
+  const deliveryFee = order?.deliveryFee ?? 0;
+  const discountTotal = items.reduce((sum, item) => sum + item.discount, 0);
+  const cartTotal = order ? Math.round((order.totalAmount + deliveryFee) * 100) / 100 : 0;
+
   const handlePaymentSuccess = (data: CheckoutResponse) => {
     console.log('Payment successful:', data);
     setPaymentData(data);
     setPaymentSuccess(true);
     
-    // TODO: Update order status in database
+    // Order payment state is updated server-side by verify and the webhook
     // TODO: Clear cart
     // TODO: Send confirmation email
   };
@@ -36,7 +129,7 @@ export default function CheckoutPage() {
     console.error('Payment error:', error);
   };
 
-  if (isPending) {
+  if (isPending || orderLoading) {
     return (
       <>
         <Header />
@@ -55,6 +148,27 @@ export default function CheckoutPage() {
     return null;
   }
 
+  if (!order) {
+    return (
+      <>
+        <Header />
+        <main className="pt-24 pb-16 bg-background min-h-screen">
+          <div className="container mx-auto">
+            <div className="max-w-2xl mx-auto text-center py-20">
+              <p className="text-text-secondary mb-6">We couldn't find an order to pay for.</p>
+              <button
+                onClick={() => router.push('/')}
+                className="px-6 py-3 bg-primary text-white rounded-lg font-bold hover:bg-green-light transition-colors"
+              >
+                Continue Shopping
+              </button>
+            </div>
+          </div>
+        </main>
+      </>
+    );
+  }
+
   if (paymentSuccess && paymentData) {
     return (
       <>
@@ -85,7 +199,7 @@ export default function CheckoutPage() {
                   <div className="flex justify-between text-sm">
                     <span className="text-text-secondary">Order ID</span>
                     <span className="text-text-primary font-mono text-xs">
-                      {paymentData.razorpay_order_id}
+                      {order.orderNumber}
                     </span>
                   </div>
                   <div className="flex justify-between text-sm pt-3 border-t border-border">
@@ -126,7 +240,11 @@ export default function CheckoutPage() {
             {/* Page Header */}
             <div className="mb-8">
               <h1 className="text-3xl font-bold text-text-primary mb-2">Checkout</h1>
-              <p className="text-text-secondary">Complete your purchase securely with Razorpay</p>
+              <p className="text-text-secondary">
+                {order.paymentMethod === 'cod'
+                  ? 'Pay in cash when your order arrives'
+                  : 'Complete your purchase securely with Razorpay'}
+              </p>
             </div>
 
             {/* Cart Summary */}
@@ -139,44 +257,36 @@ export default function CheckoutPage() {
               </div>
 
               <div className="space-y-4 mb-6">
-                {/* Sample cart items */}
-                <div className="flex items-center gap-4 pb-4 border-b border-border">
-                  <div className="w-16 h-16 bg-muted rounded-lg"></div>
-                  <div className="flex-1">
-                    <h3 className="font-medium text-text-primary">Paracetamol 500mg</h3>
-                    <p className="text-sm text-text-secondary">10 tablets</p>
-                  </div>
-                  <div className="text-right">
-                    <p className="font-bold text-text-primary">₹25</p>
-                    <p className="text-xs text-text-secondary">Qty: 2</p>
+                {items.map((item) => (
+                  <div key={item.id} className="flex items-center gap-4 pb-4 border-b border-border">
+                    <div className="w-16 h-16 bg-muted rounded-lg"></div>
+                    <div className="flex-1">
+                      <h3 className="font-medium text-text-primary">{item.name}</h3>
+                      <p className="text-sm text-text-secondary">{item.unit}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-bold text-text-primary">₹{item.subtotal}</p>
+                      <p className="text-xs text-text-secondary">Qty: {item.quantity}</p>
+                    </div>
                   </div>
-                </div>
-                <div className="flex items-center gap-4 pb-4 border-b border-border">
-                  <div className="w-16 h-16 bg-muted rounded-lg"></div>
-                  <div className="flex-1">
-                    <h3 className="font-medium text-text-primary">Vitamin C 1000mg</h3>
-                    <p className="text-sm text-text-secondary">30 tablets</p>
-                  </div>
-                  <div className="text-right">
-                    <p className="font-bold text-text-primary">₹180</p>
-                    <p className="text-xs text-text-secondary">Qty: 1</p>
-                  </div>
-                </div>
+                ))}
               </div>
 
               <div className="space-y-2 mb-6">
                 <div className="flex justify-between text-text-secondary">
                   <span>Subtotal</span>
-                  <span>₹230</span>
+                  <span>₹{order.totalAmount}</span>
                 </div>
                 <div className="flex justify-between text-text-secondary">
                   <span>Delivery Fee</span>
-                  <span>₹20</span>
-                </div>
-                <div className="flex justify-between text-success-green">
-                  <span>Discount</span>
-                  <span>-₹50</span>
+                  <span>₹{deliveryFee}</span>
                 </div>
+                {discountTotal > 0 && (
+                  <div className="flex justify-between text-success-green">
+                    <span>You saved</span>
+                    <span>₹{Math.round(discountTotal * 100) / 100}</span>
+                  </div>
+                )}
                 <div className="pt-3 border-t border-border flex justify-between">
                   <span className="text-lg font-bold text-text-primary">Total</span>
                   <span className="text-2xl font-bold text-primary">₹{cartTotal}</span>
@@ -190,32 +300,58 @@ export default function CheckoutPage() {
                   <div>
                     <h3 className="font-medium text-text-primary mb-1">Delivery Information</h3>
                     <p className="text-sm text-text-secondary">
-                      Expected delivery: <span className="font-medium text-accent-cyan">10-15 minutes</span>
+                      Expected delivery: <span className="font-medium text-accent-cyan">
+                        {order.estimatedDeliveryTime ? `${order.estimatedDeliveryTime} minutes` : '10-15 minutes'}
+                      </span>
                     </p>
                     <p className="text-sm text-text-secondary">
-                      Delivery to: {session.user.email}
+                      Delivery to: {order.deliveryAddress}
                     </p>
                   </div>
                 </div>
               </div>
 
-              {/* Payment Button */}
-              <RazorpayCheckout
-                amount={cartTotal}
-                description="MediFast Order Payment"
-                prefillName={session.user.name || ''}
-                prefillEmail={session.user.email || ''}
-                prefillContact=""
-                onSuccess={handlePaymentSuccess}
-                onError={handlePaymentError}
-              />
+              {/* Payment */}
+              {order.paymentMethod === 'cod' ? (
+                <>
+                  <div className="bg-muted rounded-lg p-4 mb-6 flex items-start gap-3">
+                    <Banknote className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+                    <div>
+                      <h3 className="font-medium text-text-primary mb-1">Cash on Delivery</h3>
+                      <p className="text-sm text-text-secondary">
+                        Please keep ₹{cartTotal} ready for the delivery partner.
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => router.push('/orders')}
+                    className="w-full px-6 py-3 bg-primary text-white rounded-lg font-bold hover:bg-green-light transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Package className="w-5 h-5" />
+                    Track Your Order
+                  </button>
+                </>
+              ) : (
+                <RazorpayCheckout
+                  amount={cartTotal}
+                  orderId={order.id}
+                  description="MediFast Order Payment"
+                  prefillName={session.user.name || ''}
+                  prefillEmail={session.user.email || ''}
+                  prefillContact=""
+                  onSuccess={handlePaymentSuccess}
+                  onError={handlePaymentError}
+                />
+              )}
             </div>
 
             {/* Security Note */}
-            <div className="text-center text-sm text-text-secondary">
-              <p>🔒 Your payment is secured by Razorpay</p>
-              <p className="mt-1">We accept UPI, Cards, Net Banking, and Wallets</p>
-            </div>
+            {order.paymentMethod !== 'cod' && (
+              <div className="text-center text-sm text-text-secondary">
+                <p>🔒 Your payment is secured by Razorpay</p>
+                <p className="mt-1">We accept UPI, Cards, Net Banking, and Wallets</p>
+              </div>
+            )}
           </div>
         </div>
       </main>
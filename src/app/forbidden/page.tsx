@@ -0,0 +1,37 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ShieldAlert } from "lucide-react";
+
+export const metadata: Metadata = {
+  title: "Access denied - MediFast",
+};
+
+// Shown when a signed-in user opens a page reserved for another role
+export default function ForbiddenPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-white flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-2xl shadow-lg p-8 border border-border text-center">
+          <div className="bg-red-50 text-red-600 w-14 h-14 rounded-xl flex items-center justify-center mx-auto mb-6">
+            <ShieldAlert className="w-7 h-7" />
+          </div>
+          <h1 className="text-3xl font-bold text-text-primary mb-2">Access Denied</h1>
+          <p className="text-text-secondary mb-8">
+            Your account doesn&apos;t have permission to view this page. If you think this is a
+            mistake, contact MediFast support.
+          </p>
+          <Button asChild className="w-full" size="lg">
+            <Link href="/">Back to Home</Link>
+          </Button>
+        </div>
+
+        <div className="text-center mt-6">
+          <Link href="/login" className="text-sm text-text-secondary hover:text-primary transition-colors">
+            Sign in with a different account
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
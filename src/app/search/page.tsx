@@ -0,0 +1,233 @@
+'use client';
+
+import { use, useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Header } from '@/components/Header';
+import { Pill, SearchX } from 'lucide-react';
+
+interface SearchResult {
+  id: number;
+  name: string;
+  brand: string;
+  saltComposition: string;
+  category: string;
+  unit: string;
+  price: number;
+  requiresPrescription: boolean | null;
+  // HTML-escaped field text with matched words in <mark> tags; text searches only
+  highlights?: {
+    name: string;
+    brand: string;
+    saltComposition: string;
+  };
+}
+
+const PAGE_SIZE = 20;
+
+const categoryLabels: Record<string, string> = {
+  prescription: 'Prescription',
+  otc: 'Over the Counter',
+  supplement: 'Supplements',
+  device: 'Devices',
+  first_aid: 'First Aid',
+  baby_care: 'Baby Care',
+  personal_care: 'Personal Care',
+};
+
+export default function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string; category?: string }>;
+}) {
+  const { q = '', category } = use(searchParams);
+  const router = useRouter();
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [count, setCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const heading = q.trim()
+    ? `Results for "${q.trim()}"`
+    : category
+      ? categoryLabels[category] ?? category
+      : 'All medicines';
+
+  const loadPage = async (offset: number) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+    if (q.trim()) params.set('q', q.trim());
+    if (category) params.set('category', category);
+
+    const response = await fetch(`/api/medicines/search?${params}`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error ?? 'Search failed');
+    }
+    return data as { results: SearchResult[]; count: number };
+  };
+
+  // A new query or category starts again from the first page
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    loadPage(0)
+      .then((data) => {
+        if (cancelled) return;
+        setResults(data.results);
+        setCount(data.count);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Search error:', err);
+        setError((err as Error).message);
+        setResults([]);
+        setCount(0);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [q, category]);
+
+  const loadMore = async () => {
+    setLoading(true);
+    try {
+      const data = await loadPage(results.length);
+      setResults((current) => [...current, ...data.results]);
+      setCount(data.count);
+    } catch (err) {
+      console.error('Search error:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Header />
+      <main className="pt-24 lg:pt-20 pb-16 bg-background min-h-screen">
+        <div className="container mx-auto">
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold text-text-primary">{heading}</h1>
+            {!loading && !error && (
+              <p className="text-sm text-text-secondary mt-1">
+                {count} {count === 1 ? 'medicine' : 'medicines'} found
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <div className="max-w-2xl mx-auto text-center py-20">
+              <p className="text-text-secondary">{error}</p>
+            </div>
+          )}
+
+          {!error && !loading && results.length === 0 && (
+            <div className="max-w-2xl mx-auto text-center py-20">
+              <SearchX className="w-12 h-12 text-text-tertiary mx-auto mb-4" />
+              <p className="text-text-secondary mb-6">No medicines match your search.</p>
+              <button
+                onClick={() => router.push('/')}
+                className="px-6 py-3 bg-primary text-white rounded-lg font-bold hover:bg-green-light transition-colors"
+              >
+                Continue Shopping
+              </button>
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {results.map((medicine) => (
+                <div
+                  key={medicine.id}
+                  className="bg-white border border-border rounded-xl p-4 flex gap-4 hover:shadow-lg transition-shadow"
+                >
+                  <div className="w-12 h-12 rounded-lg bg-muted flex items-center justify-center shrink-0">
+                    <Pill className="w-6 h-6 text-primary" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-2">
+                      <Highlighted
+                        as="h2"
+                        className="font-medium text-text-primary"
+                        html={medicine.highlights?.name}
+                        text={medicine.name}
+                      />
+                      <span className="text-base font-bold text-text-primary whitespace-nowrap">
+                        ₹{medicine.price}
+                      </span>
+                    </div>
+                    <Highlighted
+                      className="text-xs text-text-secondary"
+                      html={medicine.highlights?.brand}
+                      text={medicine.brand}
+                    />
+                    <Highlighted
+                      className="text-xs text-text-secondary mt-1 line-clamp-1"
+                      html={medicine.highlights?.saltComposition}
+                      text={medicine.saltComposition}
+                    />
+                    <div className="flex items-center gap-2 mt-2">
+                      <span className="text-xs text-text-tertiary">{medicine.unit}</span>
+                      {medicine.requiresPrescription && (
+                        <span className="bg-accent-blue text-white text-xs font-medium px-2 py-0.5 rounded">
+                          Rx
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {loading && (
+            <div className="text-center py-10">
+              <p className="text-text-secondary">Loading...</p>
+            </div>
+          )}
+
+          {!loading && !error && results.length < count && (
+            <div className="text-center mt-8">
+              <button
+                onClick={loadMore}
+                className="px-6 py-3 border border-border rounded-lg font-medium text-text-primary hover:bg-muted transition-colors"
+              >
+                Show more
+              </button>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
+
+// Field text, with the matched words marked when the search API highlighted
+// them; the highlights come HTML-escaped
+function Highlighted({
+  as: Tag = 'p',
+  className,
+  html,
+  text,
+}: {
+  as?: 'h2' | 'p';
+  className: string;
+  html?: string;
+  text: string;
+}) {
+  if (html === undefined) {
+    return <Tag className={className}>{text}</Tag>;
+  }
+  return (
+    <Tag
+      className={`${className} [&_mark]:bg-accent-yellow/40 [&_mark]:text-inherit`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
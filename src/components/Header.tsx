@@ -1,8 +1,9 @@
 "use client";
 
-import { Search, ShoppingCart, MapPin, ChevronDown, User, LogOut, Package, FileText, Settings } from "lucide-react";
+import { ShoppingCart, MapPin, ChevronDown, User, LogOut, Package, FileText, Settings } from "lucide-react";
 import Link from "next/link";
 import { LiveViewersCounter } from "./LiveViewersCounter";
+import { SearchBox } from "./SearchBox";
 import { useSession, authClient } from "@/lib/auth-client";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
@@ -78,14 +79,7 @@ export const Header = () => {
 
           {/* Search Bar */}
           <div className="flex-1 max-w-xl hidden md:block">
-            <div className="relative">
-              <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-text-secondary" />
-              <input
-                type="text"
-                placeholder="Search for medicines, health products..."
-                className="w-full pl-12 pr-4 py-3 border border-border-light rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
-              />
-            </div>
+            <SearchBox placeholder="Search for medicines, health products..." />
           </div>
 
           {/* Live Viewers Counter */}
@@ -194,14 +188,7 @@ export const Header = () => {
 
         {/* Mobile Search */}
         <div className="md:hidden pb-3">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-secondary" />
-            <input
-              type="text"
-              placeholder="Search medicines..."
-              className="w-full pl-10 pr-4 py-2 text-sm border border-border-light rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
-            />
-          </div>
+          <SearchBox placeholder="Search medicines..." compact />
           {/* Mobile Live Viewers */}
           <div className="mt-2 flex justify-center">
             <LiveViewersCounter />
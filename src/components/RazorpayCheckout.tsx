@@ -2,12 +2,13 @@
 
 import { useState, useCallback } from 'react';
 import { Loader2 } from 'lucide-react';
+import { authHeaders } from '@/lib/auth-client';
 import type { CheckoutResponse } from '@/lib/razorpay.types';
 import { toast } from 'sonner';
 
 interface RazorpayCheckoutProps {
   amount: number;
-  orderId?: string;
+  orderId: number;
   onSuccess?: (data: CheckoutResponse) => void;
   onError?: (error: string) => void;
   description?: string;
@@ -56,28 +57,44 @@ export function RazorpayCheckout({
     });
   }, []);
 
-  const handlePayment = useCallback(async () => {
+  const verifyPayment = useCallback(async (response: CheckoutResponse) => {
     try {
-      setLoading(true);
+      // Verify payment on server
+      const verifyResponse = await fetch('/api/payment/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({
+          razorpay_order_id: response.razorpay_order_id,
+          razorpay_payment_id: response.razorpay_payment_id,
+          razorpay_signature: response.razorpay_signature,
+        }),
+      });
 
-      // Load Razorpay script
-      const isLoaded = await loadRazorpayScript();
-      if (!isLoaded) {
-        throw new Error('Failed to load Razorpay SDK');
+      if (!verifyResponse.ok) {
+        throw new Error('Payment verification failed');
+      }
+
+      toast.success('Payment successful!');
+
+      if (onSuccess) {
+        onSuccess(response);
       }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Verification failed';
+      toast.error(message);
+      if (onError) onError(message);
+    }
+  }, [onSuccess, onError]);
+
+  const handlePayment = useCallback(async () => {
+    try {
+      setLoading(true);
 
       // Create order on server
       const orderResponse = await fetch('/api/payment/create-order', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          amount,
-          currency: 'INR',
-          receipt: `receipt_${Date.now()}`,
-          notes: {
-            orderId: orderId || 'web-checkout',
-          },
-        }),
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ orderId }),
       });
 
       if (!orderResponse.ok) {
@@ -87,45 +104,40 @@ export function RazorpayCheckout({
 
       const orderData = await orderResponse.json();
 
+      // The offline mock gateway has no checkout widget; complete the payment directly
+      if (orderData.provider === 'mock') {
+        const mockResponse = await fetch('/api/payment/mock/simulate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
+          body: JSON.stringify({ providerOrderId: orderData.orderId }),
+        });
+
+        if (!mockResponse.ok) {
+          const errorData = await mockResponse.json();
+          throw new Error(errorData.error || 'Mock payment failed');
+        }
+
+        await verifyPayment(await mockResponse.json());
+        setLoading(false);
+        return;
+      }
+
+      // Load Razorpay script
+      const isLoaded = await loadRazorpayScript();
+      if (!isLoaded) {
+        throw new Error('Failed to load Razorpay SDK');
+      }
+
       // Initialize Razorpay checkout
       const options = {
         key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID!,
-        amount: Math.round(amount * 100), // paise
-        currency: 'INR',
+        amount: orderData.amount, // paise, computed by the server
+        currency: orderData.currency,
         name: 'MediFast',
         description,
         image: '/logo.svg',
         order_id: orderData.orderId,
-        handler: async (response: CheckoutResponse) => {
-          try {
-            // Verify payment on server
-            const verifyResponse = await fetch('/api/payment/verify', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                razorpay_order_id: response.razorpay_order_id,
-                razorpay_payment_id: response.razorpay_payment_id,
-                razorpay_signature: response.razorpay_signature,
-              }),
-            });
-
-            if (!verifyResponse.ok) {
-              throw new Error('Payment verification failed');
-            }
-
-            const verifyData = await verifyResponse.json();
-            
-            toast.success('Payment successful!');
-            
-            if (onSuccess) {
-              onSuccess(response);
-            }
-          } catch (err) {
-            const message = err instanceof Error ? err.message : 'Verification failed';
-            toast.error(message);
-            if (onError) onError(message);
-          }
-        },
+        handler: verifyPayment,
         prefill: {
           name: prefillName,
           email: prefillEmail,
@@ -158,7 +170,7 @@ export function RazorpayCheckout({
       if (onError) onError(message);
       setLoading(false);
     }
-  }, [amount, orderId, onSuccess, onError, description, prefillEmail, prefillContact, prefillName, loadRazorpayScript]);
+  }, [amount, orderId, onError, description, prefillEmail, prefillContact, prefillName, loadRazorpayScript, verifyPayment]);
 
   return (
     <button
@@ -0,0 +1,181 @@
+"use client";
+
+import { Search, Pill, Tag, FlaskConical, LayoutGrid } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useRef, useEffect } from "react";
+
+type SuggestionType = "medicine" | "brand" | "salt" | "category";
+
+interface Suggestion {
+  type: SuggestionType;
+  label: string;
+  medicineId?: number;
+  category?: string;
+}
+
+interface SearchBoxProps {
+  placeholder: string;
+  compact?: boolean;
+}
+
+const SUGGEST_DEBOUNCE_MS = 150;
+
+const typeIcons = {
+  medicine: Pill,
+  brand: Tag,
+  salt: FlaskConical,
+  category: LayoutGrid,
+};
+
+const typeLabels = {
+  medicine: "Medicine",
+  brand: "Brand",
+  salt: "Salt",
+  category: "Category",
+};
+
+export const SearchBox = ({ placeholder, compact = false }: SearchBoxProps) => {
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Fetch suggestions once typing pauses; stale responses are aborted
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/medicines/suggest?q=${encodeURIComponent(q)}`, {
+          signal: controller.signal,
+        });
+        if (!res.ok) return;
+        const data = await res.json();
+        setSuggestions(data.suggestions);
+        setHighlighted(-1);
+      } catch (err) {
+        if ((err as Error).name !== "AbortError") {
+          console.error("Suggest error:", err);
+        }
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Close suggestions when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, []);
+
+  const search = (text: string) => {
+    if (!text.trim()) return;
+    setQuery(text);
+    setOpen(false);
+    router.push(`/search?q=${encodeURIComponent(text.trim())}`);
+  };
+
+  const selectSuggestion = (suggestion: Suggestion) => {
+    if (suggestion.type === "category" && suggestion.category) {
+      setOpen(false);
+      router.push(`/search?category=${encodeURIComponent(suggestion.category)}`);
+      return;
+    }
+    search(suggestion.label);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted((index) => Math.min(index + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((index) => Math.max(index - 1, -1));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (open && highlighted >= 0 && suggestions[highlighted]) {
+        selectSuggestion(suggestions[highlighted]);
+      } else {
+        search(query);
+      }
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <Search
+        className={`absolute top-1/2 -translate-y-1/2 text-text-secondary ${compact ? "left-3 w-4 h-4" : "left-4 w-5 h-5"}`}
+      />
+      <input
+        type="text"
+        role="combobox"
+        aria-expanded={open && suggestions.length > 0}
+        aria-autocomplete="list"
+        placeholder={placeholder}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        className={
+          compact
+            ? "w-full pl-10 pr-4 py-2 text-sm border border-border-light rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+            : "w-full pl-12 pr-4 py-3 border border-border-light rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+        }
+      />
+
+      {/* Suggestions */}
+      {open && query.trim() && suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute left-0 right-0 mt-2 bg-white rounded-xl shadow-lg border border-border py-2 z-50"
+        >
+          {suggestions.map((suggestion, index) => {
+            const Icon = typeIcons[suggestion.type];
+            return (
+              <li
+                key={`${suggestion.type}-${suggestion.medicineId ?? suggestion.label}`}
+                role="option"
+                aria-selected={index === highlighted}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectSuggestion(suggestion);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`flex items-center gap-3 px-4 py-2.5 cursor-pointer transition-colors ${index === highlighted ? "bg-muted" : ""}`}
+              >
+                <Icon className="w-4 h-4 text-text-secondary flex-shrink-0" />
+                <span className="text-sm text-text-primary flex-1 truncate">{suggestion.label}</span>
+                <span className="text-xs text-text-secondary">{typeLabels[suggestion.type]}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -10,4 +10,6 @@ const client = createClient({
 
 export const db = drizzle(client, { schema });
 
-export type Database = typeof db;
\ No newline at end of file
+export type Database = typeof db;
+
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
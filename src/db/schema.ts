@@ -1,18 +1,25 @@
-import { sqliteTable, integer, text, real } from 'drizzle-orm/sqlite-core';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, integer, text, real, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
-// Users table - supports customer, pharmacy, and delivery roles
+// Users table - supports customer, pharmacy, delivery, and admin roles
 export const users = sqliteTable('users', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   name: text('name').notNull(),
-  email: text('email').notNull().unique(),
+  // Unique among profiles linked to an account; sign-up no longer creates a
+  // second profile for an address, but older unlinked duplicates are tolerated
+  email: text('email').notNull(),
   phone: text('phone').notNull(),
-  role: text('role').notNull(), // 'customer', 'pharmacy', 'delivery'
+  role: text('role').notNull(), // 'customer', 'pharmacy', 'delivery', 'admin'
   address: text('address'),
   latitude: real('latitude'),
   longitude: real('longitude'),
+  // better-auth identity this profile belongs to; null until the account signs up
+  authUserId: text('auth_user_id').unique().references(() => user.id, { onDelete: 'set null' }),
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
-});
+}, (table) => [
+  uniqueIndex('users_linked_email_unique').on(sql`lower(${table.email})`).where(sql`${table.authUserId} is not null`),
+]);
 
 // Pharmacies table - pharmacy details with geolocation
 export const pharmacies = sqliteTable('pharmacies', {
@@ -50,6 +57,37 @@ export const medicines = sqliteTable('medicines', {
   updatedAt: text('updated_at').notNull(),
 });
 
+// Ingredients table - normalized active ingredients parsed from salt compositions
+export const ingredients = sqliteTable('ingredients', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  normalizedName: text('normalized_name').notNull().unique(),
+  createdAt: text('created_at').notNull(),
+});
+
+// Medicine Ingredients table - active ingredients of each medicine with canonical strength
+export const medicineIngredients = sqliteTable('medicine_ingredients', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  medicineId: integer('medicine_id').references(() => medicines.id, { onDelete: 'cascade' }).notNull(),
+  ingredientId: integer('ingredient_id').references(() => ingredients.id).notNull(),
+  strength: real('strength'), // null when the composition states none
+  unit: text('unit'), // 'mg', 'ml', 'IU', '%', or a concentration such as 'mg/ml'
+}, (table) => [
+  uniqueIndex('medicine_ingredients_medicine_ingredient_unique').on(table.medicineId, table.ingredientId),
+]);
+
+// Interactions table - known drug-drug interactions between ingredient pairs (ingredientA < ingredientB)
+export const interactions = sqliteTable('interactions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  ingredientAId: integer('ingredient_a_id').references(() => ingredients.id).notNull(),
+  ingredientBId: integer('ingredient_b_id').references(() => ingredients.id).notNull(),
+  severity: text('severity').notNull(), // 'minor', 'moderate', 'severe'
+  description: text('description').notNull(),
+  createdAt: text('created_at').notNull(),
+}, (table) => [
+  uniqueIndex('interactions_ingredient_pair_unique').on(table.ingredientAId, table.ingredientBId),
+]);
+
 // Inventory table - pharmacy-specific medicine stock
 export const inventory = sqliteTable('inventory', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -59,9 +97,39 @@ export const inventory = sqliteTable('inventory', {
   price: real('price').notNull(),
   discountPercentage: real('discount_percentage').default(0),
   isAvailable: integer('is_available', { mode: 'boolean' }).default(true),
+  reorderThreshold: integer('reorder_threshold'), // alert when free stock falls below this; null disables alerts
   lastUpdated: text('last_updated').notNull(),
 });
 
+// Inventory Batches table - received stock per batch; `inventory.quantity` includes these units
+export const inventoryBatches = sqliteTable('inventory_batches', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  inventoryId: integer('inventory_id').references(() => inventory.id, { onDelete: 'cascade' }).notNull(),
+  batchNumber: text('batch_number').notNull(),
+  expiryDate: text('expiry_date').notNull(), // YYYY-MM-DD; stock is unsellable after this day
+  quantity: integer('quantity').notNull(),
+  purchasePrice: real('purchase_price').notNull(),
+  receivedAt: text('received_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => [
+  uniqueIndex('inventory_batches_inventory_batch_unique').on(table.inventoryId, table.batchNumber),
+]);
+
+// Stock Alerts table - low-stock alerts raised by the stock scan, at most one open per inventory item
+export const stockAlerts = sqliteTable('stock_alerts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  inventoryId: integer('inventory_id').references(() => inventory.id, { onDelete: 'cascade' }).notNull(),
+  pharmacyId: integer('pharmacy_id').references(() => pharmacies.id).notNull(),
+  medicineId: integer('medicine_id').references(() => medicines.id).notNull(),
+  quantity: integer('quantity').notNull(), // free quantity when the alert was raised
+  threshold: integer('threshold').notNull(),
+  status: text('status').notNull().default('open'), // 'open', 'resolved'
+  createdAt: text('created_at').notNull(),
+  resolvedAt: text('resolved_at'),
+}, (table) => [
+  uniqueIndex('stock_alerts_open_inventory_unique').on(table.inventoryId).where(sql`${table.status} = 'open'`),
+]);
+
 // Orders table - customer orders with delivery details
 export const orders = sqliteTable('orders', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -77,6 +145,8 @@ export const orders = sqliteTable('orders', {
   estimatedDeliveryTime: integer('estimated_delivery_time'),
   prescriptionRequired: integer('prescription_required', { mode: 'boolean' }).default(false),
   prescriptionVerified: integer('prescription_verified', { mode: 'boolean' }).default(false),
+  paymentMethod: text('payment_method').notNull().default('online'), // 'online', 'cod'
+  paymentStatus: text('payment_status').notNull().default('pending'), // 'pending', 'paid', 'failed', 'partially_refunded', 'refunded'
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
 });
@@ -90,6 +160,98 @@ export const orderItems = sqliteTable('order_items', {
   price: real('price').notNull(),
   discount: real('discount').default(0),
   subtotal: real('subtotal').notNull(),
+  isAvailable: integer('is_available', { mode: 'boolean' }).default(true), // false once the pharmacy marks the line unavailable
+});
+
+// Order Status History table - audit trail of order status transitions
+export const orderStatusHistory = sqliteTable('order_status_history', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  orderId: integer('order_id').references(() => orders.id).notNull(),
+  fromStatus: text('from_status'), // null for the initial status
+  toStatus: text('to_status').notNull(),
+  changedBy: integer('changed_by').references(() => users.id),
+  note: text('note'),
+  changedAt: text('changed_at').notNull(),
+});
+
+// Stock Reservations table - stock held for an unpaid online order until payment or expiry
+export const stockReservations = sqliteTable('stock_reservations', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  orderId: integer('order_id').references(() => orders.id).notNull(),
+  inventoryId: integer('inventory_id').references(() => inventory.id, { onDelete: 'cascade' }).notNull(),
+  quantity: integer('quantity').notNull(),
+  status: text('status').notNull().default('active'), // 'active', 'converted', 'released'
+  expiresAt: text('expires_at').notNull(),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => [
+  uniqueIndex('stock_reservations_order_inventory_unique').on(table.orderId, table.inventoryId),
+]);
+
+// Order Stock Draws table - units an order took from stock, per batch, so a cancellation can put them back
+export const orderStockDraws = sqliteTable('order_stock_draws', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  orderId: integer('order_id').references(() => orders.id).notNull(),
+  inventoryId: integer('inventory_id').references(() => inventory.id, { onDelete: 'cascade' }).notNull(),
+  // null for legacy units received without a batch; a written-off batch takes its draws with it
+  batchId: integer('batch_id').references(() => inventoryBatches.id, { onDelete: 'cascade' }),
+  quantity: integer('quantity').notNull(),
+  createdAt: text('created_at').notNull(),
+  restockedAt: text('restocked_at'),
+});
+
+// Order Overrides table - safety checks a pharmacist chose to override, with their note
+export const orderOverrides = sqliteTable('order_overrides', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  orderId: integer('order_id').references(() => orders.id).notNull(),
+  type: text('type').notNull(), // 'interaction', 'prescription'
+  overriddenBy: integer('overridden_by').references(() => users.id).notNull(),
+  note: text('note').notNull(),
+  details: text('details'), // JSON describing what was overridden
+  createdAt: text('created_at').notNull(),
+});
+
+// Payments table - payment gateway orders and payments linked to our orders
+export const payments = sqliteTable('payments', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  orderId: integer('order_id').references(() => orders.id).notNull(),
+  provider: text('provider').notNull().default('razorpay'),
+  providerOrderId: text('provider_order_id').notNull().unique(),
+  providerPaymentId: text('provider_payment_id'),
+  amount: real('amount').notNull(),
+  currency: text('currency').notNull().default('INR'),
+  status: text('status').notNull(), // 'created', 'authorized', 'captured', 'failed'
+  method: text('method'),
+  errorReason: text('error_reason'),
+  amountRefunded: real('amount_refunded').notNull().default(0),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// Refunds table - full and per-item refunds against captured payments
+export const refunds = sqliteTable('refunds', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  paymentId: integer('payment_id').references(() => payments.id).notNull(),
+  orderId: integer('order_id').references(() => orders.id).notNull(),
+  orderItemId: integer('order_item_id').references(() => orderItems.id), // null for full refunds
+  providerRefundId: text('provider_refund_id').unique(), // null until the gateway accepts the refund
+  amount: real('amount').notNull(),
+  status: text('status').notNull(), // 'pending', 'processed', 'failed'
+  reason: text('reason'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// Payment Events table - every webhook delivery, unique per event id so redeliveries are no-ops
+export const paymentEvents = sqliteTable('payment_events', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  eventId: text('event_id').notNull().unique(),
+  event: text('event').notNull(),
+  providerOrderId: text('provider_order_id'),
+  providerPaymentId: text('provider_payment_id'),
+  payload: text('payload').notNull(),
+  receivedAt: text('received_at').notNull(),
+  processedAt: text('processed_at'),
 });
 
 // Delivery table - delivery tracking and assignment
@@ -103,6 +265,8 @@ export const delivery = sqliteTable('delivery', {
   assignedAt: text('assigned_at'),
   pickedUpAt: text('picked_up_at'),
   deliveredAt: text('delivered_at'),
+  cashCollected: real('cash_collected'), // cash the rider received for cash-on-delivery orders
+  cashCollectedAt: text('cash_collected_at'),
   notes: text('notes'),
 });
 
@@ -112,13 +276,88 @@ export const prescriptions = sqliteTable('prescriptions', {
   userId: integer('user_id').references(() => users.id).notNull(),
   orderId: integer('order_id').references(() => orders.id),
   prescriptionUrl: text('prescription_url').notNull(),
+  // Storage key of a file uploaded through /api/prescriptions/upload, served only by /api/prescriptions/file
+  fileKey: text('file_key'),
+  fileName: text('file_name'),
+  contentType: text('content_type'),
+  fileSize: integer('file_size'),
   verifiedBy: integer('verified_by').references(() => pharmacies.id),
+  status: text('status').notNull().default('pending'), // 'pending', 'verified', 'rejected', 'needs_resubmission'
   isVerified: integer('is_verified', { mode: 'boolean' }).default(false),
   verificationNotes: text('verification_notes'),
+  issuedAt: text('issued_at'), // YYYY-MM-DD the doctor wrote it
+  ocrText: text('ocr_text'), // text read from the uploaded file by /api/prescriptions/parse
+  expiresAt: text('expires_at'), // YYYY-MM-DD; cannot be reused after this day
   uploadedAt: text('uploaded_at').notNull(),
   verifiedAt: text('verified_at'),
 });
 
+// Prescription Items table - pharmacist decision on each prescription-only order line
+export const prescriptionItems = sqliteTable('prescription_items', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  prescriptionId: integer('prescription_id').references(() => prescriptions.id, { onDelete: 'cascade' }).notNull(),
+  orderItemId: integer('order_item_id').references(() => orderItems.id).notNull(),
+  status: text('status').notNull().default('pending'), // 'pending', 'approved', 'rejected'
+  notes: text('notes'),
+  reviewedBy: integer('reviewed_by').references(() => users.id),
+  reviewedAt: text('reviewed_at'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => [
+  uniqueIndex('prescription_items_order_item_id_unique').on(table.orderItemId),
+]);
+
+// Prescription Medicines table - medicines a verified prescription allows and the refills left on each
+export const prescriptionMedicines = sqliteTable('prescription_medicines', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  prescriptionId: integer('prescription_id').references(() => prescriptions.id, { onDelete: 'cascade' }).notNull(),
+  medicineId: integer('medicine_id').references(() => medicines.id).notNull(),
+  quantity: integer('quantity').notNull(), // units per fill
+  refillsAllowed: integer('refills_allowed').notNull().default(0), // fills after the first
+  refillsRemaining: integer('refills_remaining').notNull().default(0),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => [
+  uniqueIndex('prescription_medicines_prescription_medicine_unique').on(table.prescriptionId, table.medicineId),
+]);
+
+// Prescription Suggestions table - medicines read off an uploaded prescription by OCR, for the pharmacist to confirm
+export const prescriptionSuggestions = sqliteTable('prescription_suggestions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  prescriptionId: integer('prescription_id').references(() => prescriptions.id, { onDelete: 'cascade' }).notNull(),
+  medicineId: integer('medicine_id').references(() => medicines.id).notNull(),
+  quantity: integer('quantity').notNull(),
+  confidence: real('confidence').notNull(), // 0-1, OCR confidence times catalog match score
+  sourceText: text('source_text').notNull(), // the prescription line it was read from
+  status: text('status').notNull().default('suggested'), // 'suggested', 'confirmed', 'dismissed'
+  reviewedBy: integer('reviewed_by').references(() => users.id),
+  reviewedAt: text('reviewed_at'),
+  createdAt: text('created_at').notNull(),
+});
+
+// Order Prescriptions table - an earlier verified prescription reused as a refill for another order
+export const orderPrescriptions = sqliteTable('order_prescriptions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  orderId: integer('order_id').references(() => orders.id).notNull(),
+  prescriptionId: integer('prescription_id').references(() => prescriptions.id).notNull(),
+  dispensedAt: text('dispensed_at'), // set once the refill has been taken off the prescription
+  createdAt: text('created_at').notNull(),
+}, (table) => [
+  uniqueIndex('order_prescriptions_order_prescription_unique').on(table.orderId, table.prescriptionId),
+]);
+
+// Notifications table - messages for a user about their orders and prescriptions
+export const notifications = sqliteTable('notifications', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  type: text('type').notNull(), // 'prescription_needs_resubmission', 'prescription_reviewed'
+  title: text('title').notNull(),
+  message: text('message').notNull(),
+  data: text('data'), // JSON with the ids the notification is about
+  readAt: text('read_at'),
+  createdAt: text('created_at').notNull(),
+});
+
 
 // Auth tables for better-auth
 export const user = sqliteTable("user", {
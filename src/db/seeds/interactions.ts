@@ -0,0 +1,121 @@
+import { inArray } from 'drizzle-orm';
+import { db } from '@/db';
+import { ingredients, interactions } from '@/db/schema';
+import { orderedIngredientPair } from '@/lib/interactions';
+import { normalizeIngredientName } from '@/lib/salt-parser';
+
+// Ingredient names match the salt names used in the medicine catalog (see the
+// medicine ingredients seeder); ingredients not stocked yet are created so the
+// interaction applies as soon as such a medicine is added.
+async function main() {
+    const sampleInteractions = [
+        {
+            ingredientA: 'Warfarin',
+            ingredientB: 'Aspirin',
+            severity: 'severe',
+            description: 'Greatly increased risk of serious bleeding. Avoid unless specifically directed by a physician.',
+        },
+        {
+            ingredientA: 'Warfarin',
+            ingredientB: 'Ibuprofen',
+            severity: 'severe',
+            description: 'NSAIDs increase the anticoagulant effect and the risk of gastrointestinal bleeding.',
+        },
+        {
+            ingredientA: 'Sildenafil',
+            ingredientB: 'Nitroglycerin',
+            severity: 'severe',
+            description: 'Combined vasodilation can cause a sudden, life-threatening drop in blood pressure.',
+        },
+        {
+            ingredientA: 'Fluoxetine',
+            ingredientB: 'Tramadol',
+            severity: 'severe',
+            description: 'Risk of serotonin syndrome and lowered seizure threshold.',
+        },
+        {
+            ingredientA: 'Methotrexate',
+            ingredientB: 'Trimethoprim',
+            severity: 'severe',
+            description: 'Additive folate antagonism can cause bone marrow suppression.',
+        },
+        {
+            ingredientA: 'Atorvastatin Calcium',
+            ingredientB: 'Clarithromycin',
+            severity: 'moderate',
+            description: 'Clarithromycin raises statin levels, increasing the risk of muscle damage (myopathy).',
+        },
+        {
+            ingredientA: 'Lisinopril',
+            ingredientB: 'Ibuprofen',
+            severity: 'moderate',
+            description: 'NSAIDs reduce the blood-pressure-lowering effect and may impair kidney function.',
+        },
+        {
+            ingredientA: 'Lisinopril',
+            ingredientB: 'Potassium Chloride',
+            severity: 'moderate',
+            description: 'Risk of high blood potassium (hyperkalemia).',
+        },
+        {
+            ingredientA: 'Omeprazole',
+            ingredientB: 'Clopidogrel',
+            severity: 'moderate',
+            description: 'Omeprazole reduces the activation of clopidogrel, lowering its antiplatelet effect.',
+        },
+        {
+            ingredientA: 'Ibuprofen',
+            ingredientB: 'Aspirin',
+            severity: 'moderate',
+            description: 'Ibuprofen can interfere with the cardioprotective effect of low-dose aspirin.',
+        },
+        {
+            ingredientA: 'Paracetamol',
+            ingredientB: 'Warfarin',
+            severity: 'minor',
+            description: 'Regular paracetamol use may slightly increase INR; monitor when used for several days.',
+        },
+        {
+            ingredientA: 'Cetirizine Hydrochloride',
+            ingredientB: 'Loratadine',
+            severity: 'minor',
+            description: 'Two antihistamines together add drowsiness without extra benefit.',
+        },
+    ];
+
+    const names = [...new Set(sampleInteractions.flatMap((interaction) => [interaction.ingredientA, interaction.ingredientB]))];
+    await db.insert(ingredients)
+        .values(names.map((name) => ({
+            name,
+            normalizedName: normalizeIngredientName(name),
+            createdAt: new Date().toISOString(),
+        })))
+        .onConflictDoNothing();
+
+    const rows = await db.select()
+        .from(ingredients)
+        .where(inArray(ingredients.normalizedName, names.map(normalizeIngredientName)));
+    const idByName = new Map(rows.map((row) => [row.normalizedName, row.id]));
+
+    await db.insert(interactions)
+        .values(sampleInteractions.map((interaction) => {
+            const [ingredientAId, ingredientBId] = orderedIngredientPair(
+                idByName.get(normalizeIngredientName(interaction.ingredientA))!,
+                idByName.get(normalizeIngredientName(interaction.ingredientB))!
+            );
+            return {
+                ingredientAId,
+                ingredientBId,
+                severity: interaction.severity,
+                description: interaction.description,
+                createdAt: new Date().toISOString(),
+            };
+        }))
+        .onConflictDoNothing();
+
+    console.log('✅ Interactions seeder completed successfully');
+}
+
+main().catch((error) => {
+    console.error('❌ Seeder failed:', error);
+});
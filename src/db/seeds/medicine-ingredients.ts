@@ -0,0 +1,37 @@
+import { db } from '@/db';
+import { medicines } from '@/db/schema';
+import { backfillMedicineIngredients, syncMedicineIngredients } from '@/lib/ingredients';
+
+// Parses the free-text salt composition of medicines into normalized
+// ingredients. Run once on deploy after migration 0009: it only parses
+// medicines without ingredient rows, so re-running it is harmless. Pass --all
+// to re-parse every medicine, e.g. after the parser changes. Medicines created
+// or edited later are parsed when they are saved.
+async function main() {
+    if (!process.argv.includes('--all')) {
+        const parsed = await backfillMedicineIngredients(db);
+        console.log(`✅ Medicine ingredients seeder completed successfully (${parsed} medicines without ingredients parsed)`);
+        return;
+    }
+
+    const catalog = await db.select({
+        id: medicines.id,
+        saltComposition: medicines.saltComposition,
+    }).from(medicines);
+
+    let parsed = 0;
+    for (const medicine of catalog) {
+        const doses = await db.transaction((tx) =>
+            syncMedicineIngredients(tx, medicine.id, medicine.saltComposition)
+        );
+        if (doses.length > 0) {
+            parsed++;
+        }
+    }
+
+    console.log(`✅ Medicine ingredients seeder completed successfully (${parsed}/${catalog.length} medicines parsed)`);
+}
+
+main().catch((error) => {
+    console.error('❌ Seeder failed:', error);
+});
@@ -57,6 +57,17 @@ async function main() {
             longitude: -73.9857,
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString(),
+        },
+        {
+            name: 'MediFast Admin',
+            email: 'admin@medifast.com',
+            phone: '+1-555-0100',
+            role: 'admin',
+            address: null,
+            latitude: null,
+            longitude: null,
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
         }
     ];
 
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+
+// Error carrying an API error code, thrown from helpers (and transactions)
+// and turned into the usual `{ error, code }` response by the route
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  toResponse() {
+    return NextResponse.json(
+      { error: this.message, code: this.code, ...this.details },
+      { status: this.status }
+    );
+  }
+}
@@ -20,6 +20,12 @@ export const authClient = createAuthClient({
   }
 });
 
+// Authorization header for calls to our own API routes
+export function authHeaders(): Record<string, string> {
+   const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+   return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 type SessionData = ReturnType<typeof authClient.useSession>
 
 export function useSession(): SessionData {
@@ -2,8 +2,8 @@ import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
 import { bearer } from "better-auth/plugins";
 import { NextRequest } from 'next/server';
-import { headers } from "next/headers"
 import { db } from "@/db";
+import { ensureDomainUser } from "@/lib/user-accounts";
  
 export const auth = betterAuth({
 	database: drizzleAdapter(db, {
@@ -12,11 +12,33 @@ export const auth = betterAuth({
 	emailAndPassword: {    
 		enabled: true
 	},
+	emailVerification: {
+		sendOnSignUp: true,
+		autoSignInAfterVerification: true,
+		// No mail provider is configured yet, so the link goes to the server log
+		sendVerificationEmail: async ({ user, url }) => {
+			console.info(`Email verification link for ${user.email}: ${url}`);
+		},
+		// A verified address may claim the profile an admin created for it
+		afterEmailVerification: async (user) => {
+			await ensureDomainUser(user);
+		},
+	},
+	databaseHooks: {
+		user: {
+			create: {
+				// Every account gets a MediFast profile (role, address, coordinates)
+				after: async (user) => {
+					await ensureDomainUser(user);
+				},
+			},
+		},
+	},
 	plugins: [bearer()]
 });
 
 // Session validation helper
 export async function getCurrentUser(request: NextRequest) {
-  const session = await auth.api.getSession({ headers: await headers() });
+  const session = await auth.api.getSession({ headers: request.headers });
   return session?.user || null;
 }
\ No newline at end of file
@@ -0,0 +1,231 @@
+import { NextRequest } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { eq, and, inArray, type SQL } from 'drizzle-orm';
+import { db } from '@/db';
+import { delivery, orders, pharmacies, prescriptions, users } from '@/db/schema';
+import { auth } from '@/lib/auth';
+import { ApiError } from '@/lib/api-error';
+import { resolveDomainUser } from '@/lib/user-accounts';
+
+export const USER_ROLES = ['customer', 'pharmacy', 'delivery', 'admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole);
+}
+
+// The signed-in caller, resolved to their domain `users` row
+export interface Actor {
+  userId: number;
+  authUserId: string;
+  email: string;
+  role: UserRole;
+  // Pharmacies owned by a pharmacy user; empty for other roles
+  pharmacyIds: number[];
+}
+
+// Resolve the request's better-auth session (cookie or bearer token) to an
+// actor, optionally restricted to some roles. Throws ApiError 401 when there
+// is no session and 403 when the caller may not use the route.
+export async function requireActor(request: NextRequest, roles?: readonly UserRole[]): Promise<Actor> {
+  const session = await auth.api.getSession({ headers: request.headers });
+  if (!session?.user) {
+    throw new ApiError('Authentication required', 'UNAUTHENTICATED', 401);
+  }
+
+  const domainUser = await resolveDomainUser(session.user);
+
+  if (!domainUser || !isUserRole(domainUser.role)) {
+    throw new ApiError('No MediFast profile for this account', 'PROFILE_NOT_FOUND', 403);
+  }
+
+  const actor: Actor = {
+    userId: domainUser.id,
+    authUserId: session.user.id,
+    email: domainUser.email,
+    role: domainUser.role,
+    pharmacyIds: await ownedPharmacyIds(domainUser),
+  };
+
+  if (roles && !roles.includes(actor.role)) {
+    throw forbidden();
+  }
+
+  return actor;
+}
+
+// Rebuild the actor a credential was issued to (e.g. a signed file URL) so
+// their current access can be checked without a session; null when the user
+// no longer exists
+export async function actorForUserId(userId: number): Promise<Actor | null> {
+  const [domainUser] = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!domainUser || !isUserRole(domainUser.role)) {
+    return null;
+  }
+
+  return {
+    userId: domainUser.id,
+    authUserId: domainUser.authUserId ?? '',
+    email: domainUser.email,
+    role: domainUser.role,
+    pharmacyIds: await ownedPharmacyIds(domainUser),
+  };
+}
+
+// Scheduled jobs authenticate with `Authorization: Bearer $CRON_SECRET`
+// instead of a user session
+export function isSchedulerRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') ?? '');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// Run by a scheduler or by an admin
+export async function requireSchedulerOrAdmin(request: NextRequest): Promise<void> {
+  if (!isSchedulerRequest(request)) {
+    await requireActor(request, ['admin']);
+  }
+}
+
+// Pharmacies owned by a pharmacy user; empty for other roles
+export async function ownedPharmacyIds(user: { id: number; role: string }): Promise<number[]> {
+  if (user.role !== 'pharmacy') {
+    return [];
+  }
+
+  const owned = await db
+    .select({ id: pharmacies.id })
+    .from(pharmacies)
+    .where(eq(pharmacies.userId, user.id));
+  return owned.map((pharmacy) => pharmacy.id);
+}
+
+export function forbidden(message = 'You do not have access to this resource') {
+  return new ApiError(message, 'FORBIDDEN', 403);
+}
+
+export function isAdmin(actor: Actor) {
+  return actor.role === 'admin';
+}
+
+export function ownsPharmacy(actor: Actor, pharmacyId: number | null | undefined) {
+  return pharmacyId != null && actor.pharmacyIds.includes(pharmacyId);
+}
+
+export function assertPharmacyAccess(actor: Actor, pharmacyId: number | null | undefined) {
+  if (!isAdmin(actor) && !ownsPharmacy(actor, pharmacyId)) {
+    throw forbidden();
+  }
+}
+
+export function assertSelfOrAdmin(actor: Actor, userId: number | null | undefined) {
+  if (!isAdmin(actor) && actor.userId !== userId) {
+    throw forbidden();
+  }
+}
+
+// Customers see their own orders, pharmacies the orders placed with them,
+// riders the orders they are assigned to deliver
+export async function canAccessOrder(
+  actor: Actor,
+  order: { id: number; userId: number; pharmacyId: number }
+): Promise<boolean> {
+  switch (actor.role) {
+    case 'admin':
+      return true;
+    case 'customer':
+      return order.userId === actor.userId;
+    case 'pharmacy':
+      return ownsPharmacy(actor, order.pharmacyId);
+    case 'delivery': {
+      const assigned = await db
+        .select({ id: delivery.id })
+        .from(delivery)
+        .where(and(eq(delivery.orderId, order.id), eq(delivery.deliveryPersonId, actor.userId)))
+        .limit(1);
+      return assigned.length > 0;
+    }
+  }
+}
+
+export async function assertOrderAccess(
+  actor: Actor,
+  order: { id: number; userId: number; pharmacyId: number }
+) {
+  if (!(await canAccessOrder(actor, order))) {
+    throw forbidden();
+  }
+}
+
+// Filter limiting an orders query to the orders the actor may see;
+// undefined for admins
+export function orderScope(actor: Actor): SQL | undefined {
+  switch (actor.role) {
+    case 'admin':
+      return undefined;
+    case 'customer':
+      return eq(orders.userId, actor.userId);
+    case 'pharmacy':
+      return inArray(orders.pharmacyId, actor.pharmacyIds);
+    case 'delivery':
+      return inArray(
+        orders.id,
+        db
+          .select({ orderId: delivery.orderId })
+          .from(delivery)
+          .where(eq(delivery.deliveryPersonId, actor.userId))
+      );
+  }
+}
+
+// Customers see their own prescriptions, pharmacies those attached to orders
+// placed with them
+export function prescriptionScope(actor: Actor): SQL | undefined {
+  switch (actor.role) {
+    case 'admin':
+      return undefined;
+    case 'customer':
+      return eq(prescriptions.userId, actor.userId);
+    case 'pharmacy':
+      return inArray(
+        prescriptions.orderId,
+        db
+          .select({ id: orders.id })
+          .from(orders)
+          .where(inArray(orders.pharmacyId, actor.pharmacyIds))
+      );
+    case 'delivery':
+      return inArray(prescriptions.id, []);
+  }
+}
+
+export async function assertPrescriptionAccess(
+  actor: Actor,
+  prescription: { userId: number; orderId: number | null }
+) {
+  if (isAdmin(actor) || (actor.role === 'customer' && prescription.userId === actor.userId)) {
+    return;
+  }
+
+  if (actor.role === 'pharmacy' && prescription.orderId !== null) {
+    const order = await db
+      .select({ pharmacyId: orders.pharmacyId })
+      .from(orders)
+      .where(eq(orders.id, prescription.orderId))
+      .limit(1);
+    if (ownsPharmacy(actor, order[0]?.pharmacyId)) {
+      return;
+    }
+  }
+
+  throw forbidden();
+}
@@ -0,0 +1,239 @@
+import { eq, and, inArray } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { inventory, pharmacies } from '@/db/schema';
+import { calculateDistance, estimateDelivery } from '@/lib/delivery-estimate';
+import type { Location } from '@/lib/local-stock';
+import { priceLine, roundCurrency } from '@/lib/orders';
+import { freeQuantity } from '@/lib/stock-reservations';
+
+type Executor = Database | Transaction;
+
+// Pharmacies considered when searching for a split, best-stocked first, and
+// the most combinations of them tried; keeps the search small for carts with
+// many items. When it finds no cover (a line's only stockers rank below the
+// cut) the split falls back to a greedy cover over every stocker.
+const MAX_CANDIDATE_PHARMACIES = 15;
+const MAX_SPLIT_COMBINATIONS = 10_000;
+
+export interface BasketLine {
+  medicineId: number;
+  quantity: number;
+}
+
+export interface SourcedLine extends BasketLine {
+  price: number;
+  discount: number;
+  subtotal: number;
+}
+
+// One pharmacy's share of a sourcing option, delivered as its own order
+export interface PharmacyShare {
+  pharmacyId: number;
+  pharmacyName: string;
+  distance: number;
+  items: SourcedLine[];
+  subtotal: number;
+  deliveryFee: number;
+  estimatedDeliveryTime: number;
+}
+
+export interface SourcingOption {
+  pharmacies: PharmacyShare[];
+  subtotal: number;
+  deliveryFees: number;
+  total: number;
+  // Shares are delivered in parallel, so the basket arrives with the slowest one
+  estimatedDeliveryTime: number;
+}
+
+export interface BasketAvailability {
+  // Lines no pharmacy in range can fill in full
+  unavailable: BasketLine[];
+  // Cheapest single pharmacy able to fill every line, delivery included
+  singlePharmacy: SourcingOption | null;
+  // Fewest pharmacies covering every fillable line, cheapest among those
+  split: SourcingOption | null;
+}
+
+interface Candidate {
+  pharmacyId: number;
+  pharmacyName: string;
+  distance: number;
+  // Priced lines this pharmacy can fill in full, by medicine id
+  lines: Map<number, SourcedLine>;
+}
+
+async function findCandidates(executor: Executor, lines: BasketLine[], location: Location): Promise<Candidate[]> {
+  const rows = await executor
+    .select({ stock: inventory, pharmacy: pharmacies, free: freeQuantity() })
+    .from(inventory)
+    .innerJoin(pharmacies, eq(inventory.pharmacyId, pharmacies.id))
+    .where(
+      and(
+        inArray(inventory.medicineId, lines.map((line) => line.medicineId)),
+        eq(inventory.isAvailable, true),
+        eq(pharmacies.isActive, true)
+      )
+    );
+
+  const quantityByMedicine = new Map(lines.map((line) => [line.medicineId, line.quantity]));
+  const candidates = new Map<number, Candidate>();
+
+  for (const { stock, pharmacy, free } of rows) {
+    const quantity = quantityByMedicine.get(stock.medicineId)!;
+    if (free < quantity) continue;
+
+    const distance = calculateDistance(location.latitude, location.longitude, pharmacy.latitude, pharmacy.longitude);
+    if (distance > location.radius) continue;
+
+    const candidate = candidates.get(pharmacy.id) ?? {
+      pharmacyId: pharmacy.id,
+      pharmacyName: pharmacy.pharmacyName,
+      distance,
+      lines: new Map(),
+    };
+    candidate.lines.set(stock.medicineId, {
+      medicineId: stock.medicineId,
+      quantity,
+      ...priceLine(stock, quantity),
+    });
+    candidates.set(pharmacy.id, candidate);
+  }
+
+  return [...candidates.values()];
+}
+
+// Price a set of pharmacies, giving each line to the cheapest pharmacy in the
+// set that stocks it. Pharmacies left without lines are dropped.
+function buildOption(chosen: Candidate[], medicineIds: number[]): SourcingOption {
+  const shares = new Map<number, SourcedLine[]>();
+  for (const medicineId of medicineIds) {
+    let best: { candidate: Candidate; line: SourcedLine } | null = null;
+    for (const candidate of chosen) {
+      const line = candidate.lines.get(medicineId);
+      if (line && (!best || line.subtotal < best.line.subtotal ||
+        (line.subtotal === best.line.subtotal && candidate.distance < best.candidate.distance))) {
+        best = { candidate, line };
+      }
+    }
+    if (best) {
+      shares.set(best.candidate.pharmacyId, [...(shares.get(best.candidate.pharmacyId) ?? []), best.line]);
+    }
+  }
+
+  const pharmacyShares = chosen
+    .filter((candidate) => shares.has(candidate.pharmacyId))
+    .map((candidate): PharmacyShare => {
+      const items = shares.get(candidate.pharmacyId)!;
+      const { deliveryFee, estimatedDeliveryTime } = estimateDelivery(candidate.distance);
+      return {
+        pharmacyId: candidate.pharmacyId,
+        pharmacyName: candidate.pharmacyName,
+        distance: candidate.distance,
+        items,
+        subtotal: roundCurrency(items.reduce((sum, item) => sum + item.subtotal, 0)),
+        deliveryFee,
+        estimatedDeliveryTime,
+      };
+    });
+
+  const subtotal = roundCurrency(pharmacyShares.reduce((sum, share) => sum + share.subtotal, 0));
+  const deliveryFees = roundCurrency(pharmacyShares.reduce((sum, share) => sum + share.deliveryFee, 0));
+  return {
+    pharmacies: pharmacyShares,
+    subtotal,
+    deliveryFees,
+    total: roundCurrency(subtotal + deliveryFees),
+    estimatedDeliveryTime: Math.max(...pharmacyShares.map((share) => share.estimatedDeliveryTime)),
+  };
+}
+
+function isBetter(option: SourcingOption, current: SourcingOption | null) {
+  return !current ||
+    option.total < current.total ||
+    (option.total === current.total && option.estimatedDeliveryTime < current.estimatedDeliveryTime);
+}
+
+function* combinations<T>(items: T[], size: number, start = 0, prefix: T[] = []): Generator<T[]> {
+  if (prefix.length === size) {
+    yield prefix;
+    return;
+  }
+  for (let i = start; i <= items.length - (size - prefix.length); i++) {
+    yield* combinations(items, size, i + 1, [...prefix, items[i]]);
+  }
+}
+
+// Repeatedly take the pharmacy filling the most lines still uncovered; not
+// always the fewest pharmacies, but bounded by the number of lines
+function greedyCover(ranked: Candidate[], medicineIds: number[]): Candidate[] {
+  const uncovered = new Set(medicineIds);
+  const chosen: Candidate[] = [];
+  while (uncovered.size > 0) {
+    let best: Candidate | null = null;
+    let bestCount = 0;
+    for (const candidate of ranked) {
+      const count = [...uncovered].filter((id) => candidate.lines.has(id)).length;
+      if (count > bestCount) {
+        best = candidate;
+        bestCount = count;
+      }
+    }
+    if (!best) break;
+    chosen.push(best);
+    for (const id of best.lines.keys()) uncovered.delete(id);
+  }
+  return chosen;
+}
+
+export async function findBasketAvailability(
+  executor: Executor,
+  lines: BasketLine[],
+  location: Location
+): Promise<BasketAvailability> {
+  const candidates = await findCandidates(executor, lines, location);
+
+  const fillable = lines.filter((line) => candidates.some((candidate) => candidate.lines.has(line.medicineId)));
+  const unavailable = lines.filter((line) => !fillable.includes(line));
+  const medicineIds = fillable.map((line) => line.medicineId);
+
+  let singlePharmacy: SourcingOption | null = null;
+  if (unavailable.length === 0) {
+    for (const candidate of candidates) {
+      if (medicineIds.every((id) => candidate.lines.has(id))) {
+        const option = buildOption([candidate], medicineIds);
+        if (isBetter(option, singlePharmacy)) {
+          singlePharmacy = option;
+        }
+      }
+    }
+  }
+
+  if (medicineIds.length === 0) {
+    return { unavailable, singlePharmacy: null, split: null };
+  }
+
+  // Smallest number of pharmacies that covers every fillable line; among
+  // covers of that size, the cheapest including delivery fees
+  const ranked = [...candidates].sort((a, b) => b.lines.size - a.lines.size || a.distance - b.distance);
+  const pool = ranked.slice(0, MAX_CANDIDATE_PHARMACIES);
+
+  let split: SourcingOption | null = null;
+  let examined = 0;
+  for (let size = 1; size <= Math.min(pool.length, medicineIds.length) && !split && examined < MAX_SPLIT_COMBINATIONS; size++) {
+    for (const chosen of combinations(pool, size)) {
+      if (++examined > MAX_SPLIT_COMBINATIONS) break;
+      if (!medicineIds.every((id) => chosen.some((candidate) => candidate.lines.has(id)))) continue;
+      const option = buildOption(chosen, medicineIds);
+      if (isBetter(option, split)) {
+        split = option;
+      }
+    }
+  }
+
+  if (!split) {
+    split = buildOption(greedyCover(ranked, medicineIds), medicineIds);
+  }
+
+  return { unavailable, singlePharmacy, split };
+}
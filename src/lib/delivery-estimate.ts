@@ -0,0 +1,62 @@
+// Distance bands shared by delivery estimates and order placement
+
+// Haversine formula to calculate distance between two coordinates (in km)
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const R = 6371; // Earth radius in km
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
+            Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+            Math.sin(dLon/2) * Math.sin(dLon/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  const distance = R * c;
+  return Math.round(distance * 100) / 100; // Round to 2 decimal places
+}
+
+export function calculateTravelTime(distance: number): number {
+  if (distance <= 2) return 10;
+  if (distance <= 5) return 20;
+  if (distance <= 10) return 35;
+  if (distance <= 20) return 60;
+  return 90;
+}
+
+export function calculateDeliveryFee(distance: number): number {
+  if (distance <= 2) return 2.00;
+  if (distance <= 5) return 3.50;
+  if (distance <= 10) return 5.00;
+  if (distance <= 20) return 7.50;
+  return 10.00;
+}
+
+export function validateLatitude(lat: number): boolean {
+  return lat >= -90 && lat <= 90;
+}
+
+export function validateLongitude(lon: number): boolean {
+  return lon >= -180 && lon <= 180;
+}
+
+export const PREPARATION_TIME = 15;
+export const BUFFER_TIME = 5;
+
+// Delivery time and fee for a pharmacy-to-customer distance
+export function estimateDelivery(distance: number) {
+  const travelTime = calculateTravelTime(distance);
+
+  return {
+    distance,
+    estimatedDeliveryTime: PREPARATION_TIME + travelTime + BUFFER_TIME,
+    breakdown: {
+      preparationTime: PREPARATION_TIME,
+      travelTime,
+      bufferTime: BUFFER_TIME,
+    },
+    deliveryFee: calculateDeliveryFee(distance),
+  };
+}
@@ -0,0 +1,127 @@
+import { eq, inArray, isNull } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { ingredients, medicineIngredients, medicines } from '@/db/schema';
+import { parseSaltComposition, type ParsedIngredient } from '@/lib/salt-parser';
+
+type Executor = Database | Transaction;
+
+// One active ingredient of a medicine at a canonical strength
+export type IngredientDose = ParsedIngredient;
+
+// Replace a medicine's ingredient rows with those parsed from its salt
+// composition, creating ingredients seen for the first time
+export async function syncMedicineIngredients(
+  executor: Executor,
+  medicineId: number,
+  saltComposition: string
+): Promise<IngredientDose[]> {
+  const parsed = parseSaltComposition(saltComposition);
+
+  await executor.delete(medicineIngredients).where(eq(medicineIngredients.medicineId, medicineId));
+
+  if (parsed.length === 0) {
+    return [];
+  }
+
+  await executor
+    .insert(ingredients)
+    .values(parsed.map((ingredient) => ({
+      name: ingredient.name,
+      normalizedName: ingredient.normalizedName,
+      createdAt: new Date().toISOString(),
+    })))
+    .onConflictDoNothing();
+
+  const rows = await executor
+    .select()
+    .from(ingredients)
+    .where(inArray(ingredients.normalizedName, parsed.map((ingredient) => ingredient.normalizedName)));
+  const idByName = new Map(rows.map((row) => [row.normalizedName, row.id]));
+
+  await executor.insert(medicineIngredients).values(
+    parsed.map((ingredient) => ({
+      medicineId,
+      ingredientId: idByName.get(ingredient.normalizedName)!,
+      strength: ingredient.strength,
+      unit: ingredient.unit,
+    }))
+  );
+
+  return parsed;
+}
+
+// Parse the salt composition of every medicine without ingredient rows, such
+// as the catalog from before ingredients were split out. Returns how many
+// medicines were parsed.
+export async function backfillMedicineIngredients(database: Database): Promise<number> {
+  const pending = await database
+    .select({ id: medicines.id, saltComposition: medicines.saltComposition })
+    .from(medicines)
+    .leftJoin(medicineIngredients, eq(medicineIngredients.medicineId, medicines.id))
+    .where(isNull(medicineIngredients.id));
+
+  let parsed = 0;
+  for (const medicine of pending) {
+    const doses = await database.transaction((tx) =>
+      syncMedicineIngredients(tx, medicine.id, medicine.saltComposition)
+    );
+    if (doses.length > 0) {
+      parsed++;
+    }
+  }
+
+  return parsed;
+}
+
+// Ingredient doses of each medicine, keyed by medicine id. Medicines without
+// parsed ingredients are absent from the map.
+export async function medicineIngredientDoses(
+  executor: Executor,
+  medicineIds: number[]
+): Promise<Map<number, IngredientDose[]>> {
+  const rows = await executor
+    .select({
+      medicineId: medicineIngredients.medicineId,
+      name: ingredients.name,
+      normalizedName: ingredients.normalizedName,
+      strength: medicineIngredients.strength,
+      unit: medicineIngredients.unit,
+    })
+    .from(medicineIngredients)
+    .innerJoin(ingredients, eq(medicineIngredients.ingredientId, ingredients.id))
+    .where(inArray(medicineIngredients.medicineId, medicineIds));
+
+  const doses = new Map<number, IngredientDose[]>();
+  for (const { medicineId, ...dose } of rows) {
+    doses.set(medicineId, [...(doses.get(medicineId) ?? []), dose]);
+  }
+  return doses;
+}
+
+// Medicines containing any of the named ingredients
+export async function medicinesWithIngredients(
+  executor: Executor,
+  normalizedNames: string[]
+): Promise<number[]> {
+  const rows = await executor
+    .selectDistinct({ medicineId: medicineIngredients.medicineId })
+    .from(medicineIngredients)
+    .innerJoin(ingredients, eq(medicineIngredients.ingredientId, ingredients.id))
+    .where(inArray(ingredients.normalizedName, normalizedNames));
+  return rows.map((row) => row.medicineId);
+}
+
+// Identical for two medicines exactly when they contain the same ingredients
+// at the same strengths
+export function doseSetKey(doses: IngredientDose[]): string {
+  return doses
+    .map((dose) => `${dose.normalizedName}@${dose.strength ?? ''}${dose.unit ?? ''}`)
+    .sort()
+    .join('|');
+}
+
+// Ingredients two medicines have in common, ignoring strength
+export function sharedIngredientCount(a: IngredientDose[], b: IngredientDose[]): number {
+  const names = new Set(a.map((dose) => dose.normalizedName));
+  return b.filter((dose) => names.has(dose.normalizedName)).length;
+}
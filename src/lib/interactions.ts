@@ -0,0 +1,159 @@
+import { and, eq, inArray, isNull, ne, or } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { ingredients, interactions, medicineIngredients, medicines, orderItems, orderOverrides } from '@/db/schema';
+import { parseSaltComposition } from '@/lib/salt-parser';
+
+type Executor = Database | Transaction;
+
+export const INTERACTION_SEVERITIES = ['minor', 'moderate', 'severe'] as const;
+
+export type InteractionSeverity = typeof INTERACTION_SEVERITIES[number];
+
+export function isInteractionSeverity(value: unknown): value is InteractionSeverity {
+  return INTERACTION_SEVERITIES.includes(value as InteractionSeverity);
+}
+
+// Two medicines in the same cart or order whose ingredients interact
+export interface InteractionConflict {
+  medicineA: { id: number; name: string };
+  medicineB: { id: number; name: string };
+  ingredientA: string;
+  ingredientB: string;
+  severity: InteractionSeverity;
+  description: string;
+}
+
+// Interactions are stored once per pair with the lower ingredient id first
+export function orderedIngredientPair(first: number, second: number): [number, number] {
+  return first < second ? [first, second] : [second, first];
+}
+
+// Ingredient ids of each medicine. Medicines not yet split into ingredients
+// are parsed on the fly and matched to known ingredients by name.
+async function ingredientIdsByMedicine(executor: Executor, medicineIds: number[]) {
+  const rows = await executor
+    .select({ medicineId: medicineIngredients.medicineId, ingredientId: medicineIngredients.ingredientId })
+    .from(medicineIngredients)
+    .where(inArray(medicineIngredients.medicineId, medicineIds));
+
+  const byMedicine = new Map<number, Set<number>>();
+  for (const row of rows) {
+    byMedicine.set(row.medicineId, (byMedicine.get(row.medicineId) ?? new Set()).add(row.ingredientId));
+  }
+
+  const unparsed = medicineIds.filter((id) => !byMedicine.has(id));
+  if (unparsed.length > 0) {
+    const pending = await executor
+      .select({ id: medicines.id, saltComposition: medicines.saltComposition })
+      .from(medicines)
+      .where(inArray(medicines.id, unparsed));
+    const names = new Map(pending.map((medicine) => [
+      medicine.id,
+      parseSaltComposition(medicine.saltComposition).map((ingredient) => ingredient.normalizedName),
+    ]));
+
+    const known = await executor
+      .select({ id: ingredients.id, normalizedName: ingredients.normalizedName })
+      .from(ingredients)
+      .where(inArray(ingredients.normalizedName, [...names.values()].flat()));
+    const idByName = new Map(known.map((ingredient) => [ingredient.normalizedName, ingredient.id]));
+
+    for (const [medicineId, medicineNames] of names) {
+      const ids = medicineNames.map((name) => idByName.get(name)).filter((id) => id !== undefined);
+      byMedicine.set(medicineId, new Set(ids));
+    }
+  }
+
+  return byMedicine;
+}
+
+// Interacting pairs among the given medicines, most severe first
+export async function findInteractions(executor: Executor, medicineIds: number[]): Promise<InteractionConflict[]> {
+  const uniqueIds = [...new Set(medicineIds)];
+  if (uniqueIds.length < 2) {
+    return [];
+  }
+
+  const byMedicine = await ingredientIdsByMedicine(executor, uniqueIds);
+  const allIngredientIds = [...new Set([...byMedicine.values()].flatMap((ids) => [...ids]))];
+  if (allIngredientIds.length < 2) {
+    return [];
+  }
+
+  const known = await executor
+    .select()
+    .from(interactions)
+    .where(
+      and(
+        inArray(interactions.ingredientAId, allIngredientIds),
+        inArray(interactions.ingredientBId, allIngredientIds)
+      )
+    );
+  if (known.length === 0) {
+    return [];
+  }
+
+  const [medicineRows, ingredientRows] = await Promise.all([
+    executor
+      .select({ id: medicines.id, name: medicines.name })
+      .from(medicines)
+      .where(inArray(medicines.id, uniqueIds)),
+    executor
+      .select({ id: ingredients.id, name: ingredients.name })
+      .from(ingredients)
+      .where(inArray(ingredients.id, allIngredientIds)),
+  ]);
+  const medicineName = new Map(medicineRows.map((medicine) => [medicine.id, medicine.name]));
+  const ingredientName = new Map(ingredientRows.map((ingredient) => [ingredient.id, ingredient.name]));
+  const interactionByPair = new Map(known.map((interaction) => [
+    `${interaction.ingredientAId}:${interaction.ingredientBId}`,
+    interaction,
+  ]));
+
+  const conflicts: InteractionConflict[] = [];
+  for (let i = 0; i < uniqueIds.length; i++) {
+    for (let j = i + 1; j < uniqueIds.length; j++) {
+      const [first, second] = [uniqueIds[i], uniqueIds[j]];
+      for (const ingredientA of byMedicine.get(first) ?? []) {
+        for (const ingredientB of byMedicine.get(second) ?? []) {
+          const interaction = interactionByPair.get(orderedIngredientPair(ingredientA, ingredientB).join(':'));
+          if (!interaction || !isInteractionSeverity(interaction.severity)) continue;
+
+          conflicts.push({
+            medicineA: { id: first, name: medicineName.get(first) ?? '' },
+            medicineB: { id: second, name: medicineName.get(second) ?? '' },
+            ingredientA: ingredientName.get(ingredientA) ?? '',
+            ingredientB: ingredientName.get(ingredientB) ?? '',
+            severity: interaction.severity,
+            description: interaction.description,
+          });
+        }
+      }
+    }
+  }
+
+  return conflicts.sort(
+    (a, b) => INTERACTION_SEVERITIES.indexOf(b.severity) - INTERACTION_SEVERITIES.indexOf(a.severity)
+  );
+}
+
+// Severe interactions among the order's remaining lines that no pharmacist has
+// overridden yet; the order is held pending until one does
+export async function unreviewedSevereInteractions(executor: Executor, orderId: number): Promise<InteractionConflict[]> {
+  const overridden = await executor
+    .select({ id: orderOverrides.id })
+    .from(orderOverrides)
+    .where(and(eq(orderOverrides.orderId, orderId), eq(orderOverrides.type, 'interaction')))
+    .limit(1);
+  if (overridden.length > 0) {
+    return [];
+  }
+
+  const lines = await executor
+    .select({ medicineId: orderItems.medicineId })
+    .from(orderItems)
+    .where(and(eq(orderItems.orderId, orderId), or(isNull(orderItems.isAvailable), ne(orderItems.isAvailable, false))));
+
+  const conflicts = await findInteractions(executor, lines.map((line) => line.medicineId));
+  return conflicts.filter((conflict) => conflict.severity === 'severe');
+}
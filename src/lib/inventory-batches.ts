@@ -0,0 +1,154 @@
+import { eq, and, gt, gte, lte, asc, sql } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { inventory, inventoryBatches, medicines } from '@/db/schema';
+import { ApiError } from '@/lib/api-error';
+
+// Batch-level stock. `inventory.quantity` is everything on the shelf: units
+// in batches (expired or not) plus legacy units received without a batch.
+// Expired batches stay counted until written off but can never be sold, so
+// the sellable quantity is the on-hand quantity less expired batch units.
+
+type Executor = Database | Transaction;
+type Batch = typeof inventoryBatches.$inferSelect;
+
+// Today's date as stored in `expiry_date`; a batch expiring today is still sellable
+export function todayIso(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00.000Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return todayIso(result);
+}
+
+export function isValidIsoDate(value: unknown): value is string {
+  return typeof value === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !isNaN(Date.parse(value)) &&
+    todayIso(new Date(`${value}T00:00:00.000Z`)) === value;
+}
+
+// Units of an inventory row that may be sold today, for use in queries on
+// `inventory`. Written with explicit qualifiers: drizzle leaves columns
+// unqualified in single-table queries, which would bind to the subquery.
+export function sellableQuantity(today: string = todayIso()) {
+  return sql<number>`("inventory"."quantity" - coalesce((
+    select sum("expired_batch"."quantity") from "inventory_batches" "expired_batch"
+    where "expired_batch"."inventory_id" = "inventory"."id" and "expired_batch"."expiry_date" < ${today}
+  ), 0))`;
+}
+
+// Record a received batch and add its units to the on-hand quantity
+export async function receiveBatch(
+  executor: Executor,
+  inventoryId: number,
+  batch: { batchNumber: string; expiryDate: string; quantity: number; purchasePrice: number }
+): Promise<Batch> {
+  const now = new Date().toISOString();
+  const [created] = await executor
+    .insert(inventoryBatches)
+    .values({ inventoryId, ...batch, receivedAt: now, updatedAt: now })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!created) {
+    throw new ApiError('This batch has already been received for this item', 'DUPLICATE_BATCH', 409, {
+      batchNumber: batch.batchNumber,
+    });
+  }
+
+  await executor
+    .update(inventory)
+    .set({ quantity: sql`${inventory.quantity} + ${batch.quantity}`, lastUpdated: now })
+    .where(eq(inventory.id, inventoryId));
+
+  return created;
+}
+
+// Remove a batch's remaining units from stock, e.g. expired or damaged goods
+export async function writeOffBatch(executor: Executor, batchId: number): Promise<Batch | undefined> {
+  const [deleted] = await executor
+    .delete(inventoryBatches)
+    .where(eq(inventoryBatches.id, batchId))
+    .returning();
+  if (!deleted) return undefined;
+
+  await executor
+    .update(inventory)
+    .set({
+      quantity: sql`max(${inventory.quantity} - ${deleted.quantity}, 0)`,
+      lastUpdated: new Date().toISOString(),
+    })
+    .where(eq(inventory.id, deleted.inventoryId));
+  return deleted;
+}
+
+// Take units from an inventory row first-expiry-first-out: unexpired batches
+// in expiry order, then any legacy units without a batch. The caller has
+// already decremented `inventory.quantity` (guarded by the sellable quantity).
+export async function dispenseFefo(
+  executor: Executor,
+  inventoryId: number,
+  quantity: number
+): Promise<{ batchId: number; batchNumber: string; expiryDate: string; quantity: number }[]> {
+  const batches = await executor
+    .select()
+    .from(inventoryBatches)
+    .where(
+      and(
+        eq(inventoryBatches.inventoryId, inventoryId),
+        gte(inventoryBatches.expiryDate, todayIso()),
+        gt(inventoryBatches.quantity, 0)
+      )
+    )
+    .orderBy(asc(inventoryBatches.expiryDate), asc(inventoryBatches.id));
+
+  const taken = [];
+  let remaining = quantity;
+  const now = new Date().toISOString();
+
+  for (const batch of batches) {
+    if (remaining === 0) break;
+
+    const take = Math.min(batch.quantity, remaining);
+    const decremented = await executor
+      .update(inventoryBatches)
+      .set({ quantity: sql`${inventoryBatches.quantity} - ${take}`, updatedAt: now })
+      .where(and(eq(inventoryBatches.id, batch.id), gte(inventoryBatches.quantity, take)))
+      .returning({ id: inventoryBatches.id });
+
+    if (decremented.length === 0) {
+      throw new ApiError('Stock changed while the order was being placed, please retry', 'STOCK_CONFLICT', 409);
+    }
+
+    taken.push({ batchId: batch.id, batchNumber: batch.batchNumber, expiryDate: batch.expiryDate, quantity: take });
+    remaining -= take;
+  }
+
+  return taken;
+}
+
+// Batches of a pharmacy with units left that expire within `days` (or have
+// already expired), soonest first
+export async function expiringBatches(executor: Executor, pharmacyId: number, days: number) {
+  const today = todayIso();
+  return executor
+    .select({
+      batch: inventoryBatches,
+      medicineId: medicines.id,
+      medicineName: medicines.name,
+      brand: medicines.brand,
+    })
+    .from(inventoryBatches)
+    .innerJoin(inventory, eq(inventoryBatches.inventoryId, inventory.id))
+    .innerJoin(medicines, eq(inventory.medicineId, medicines.id))
+    .where(
+      and(
+        eq(inventory.pharmacyId, pharmacyId),
+        gt(inventoryBatches.quantity, 0),
+        lte(inventoryBatches.expiryDate, addDays(today, days))
+      )
+    )
+    .orderBy(asc(inventoryBatches.expiryDate), asc(medicines.name));
+}
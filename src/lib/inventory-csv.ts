@@ -0,0 +1,419 @@
+import { eq, and, asc, inArray, sql } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { inventory, inventoryBatches, medicines } from '@/db/schema';
+import { ApiError } from '@/lib/api-error';
+import { parseCsv, safeSpreadsheetText, toCsv } from '@/lib/csv';
+import { isValidIsoDate, todayIso } from '@/lib/inventory-batches';
+
+// Spreadsheet format shared by the inventory import and export. One row per
+// batch; a row without a batch holds the units not tracked in any batch.
+// A medicine is identified by `medicine_id`, or by its exact name when the
+// id column is blank.
+
+type Executor = Database | Transaction;
+
+export const INVENTORY_CSV_COLUMNS = [
+  'medicine_id',
+  'medicine_name',
+  'quantity',
+  'price',
+  'discount',
+  'batch',
+  'expiry',
+  'purchase_price',
+] as const;
+
+type Column = typeof INVENTORY_CSV_COLUMNS[number];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export interface RowError {
+  row: number; // line number in the file, the header being line 1
+  column?: Column;
+  message: string;
+}
+
+export interface PlannedBatch {
+  row: number;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: number;
+  purchasePrice: number | null; // null keeps the existing price (0 for a new batch)
+  action: 'create' | 'update';
+}
+
+// Everything an import will do to one medicine's stock
+export interface PlannedItem {
+  rows: number[];
+  medicineId: number;
+  medicineName: string;
+  inventoryId: number | null;
+  action: 'create' | 'update';
+  price: number;
+  discount: number | null; // null keeps the existing discount (0 for a new item)
+  untrackedQuantity: number | null; // null keeps the existing untracked units
+  batches: PlannedBatch[];
+}
+
+export interface ImportPlan {
+  items: PlannedItem[];
+  errors: RowError[];
+  rowCount: number;
+}
+
+const INTEGER = /^\d+$/;
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+function readHeader(fields: string[]): Map<Column, number> {
+  const columns = new Map<Column, number>();
+  fields.forEach((name, index) => {
+    const column = name.trim().toLowerCase().replace(/[\s-]+/g, '_') as Column;
+    if (INVENTORY_CSV_COLUMNS.includes(column) && !columns.has(column)) {
+      columns.set(column, index);
+    }
+  });
+
+  const missing = (['quantity', 'price'] as Column[]).filter((column) => !columns.has(column));
+  if (!columns.has('medicine_id') && !columns.has('medicine_name')) {
+    missing.unshift('medicine_id');
+  }
+  if (missing.length > 0) {
+    throw new ApiError(`CSV header is missing required columns: ${missing.join(', ')}`, 'INVALID_CSV', 400, {
+      expectedColumns: INVENTORY_CSV_COLUMNS,
+    });
+  }
+  return columns;
+}
+
+// Validate an import file against the pharmacy's current stock without
+// changing anything. Structural problems with the file throw; problems with
+// individual rows are collected so they can all be fixed in one go.
+export async function planInventoryImport(executor: Executor, pharmacyId: number, csv: string): Promise<ImportPlan> {
+  let records;
+  try {
+    records = parseCsv(csv);
+  } catch (error) {
+    throw new ApiError((error as Error).message, 'INVALID_CSV');
+  }
+
+  if (records.length < 2) {
+    throw new ApiError('CSV must have a header row and at least one data row', 'INVALID_CSV');
+  }
+  if (records.length - 1 > MAX_IMPORT_ROWS) {
+    throw new ApiError(`CSV can have at most ${MAX_IMPORT_ROWS} data rows`, 'TOO_MANY_ROWS');
+  }
+
+  const columns = readHeader(records[0].fields);
+  const rows = records.slice(1).map(({ line, fields }) => {
+    const value = (column: Column) => {
+      const index = columns.get(column);
+      // Undo the formula guard the export adds to text starting with = + - @
+      return index === undefined ? '' : (fields[index] ?? '').trim().replace(/^'(?=[=+\-@])/, '');
+    };
+    return {
+      row: line,
+      medicineId: value('medicine_id'),
+      medicineName: value('medicine_name'),
+      quantity: value('quantity'),
+      price: value('price'),
+      discount: value('discount'),
+      batch: value('batch'),
+      expiry: value('expiry'),
+      purchasePrice: value('purchase_price'),
+    };
+  });
+
+  // Resolve medicines referenced by id or by name in two queries
+  const ids = [...new Set(rows.filter((row) => INTEGER.test(row.medicineId)).map((row) => parseInt(row.medicineId)))];
+  const names = [...new Set(rows.filter((row) => !row.medicineId && row.medicineName).map((row) => row.medicineName.toLowerCase()))];
+
+  const byId = new Map<number, { id: number; name: string }>();
+  const byName = new Map<string, { id: number; name: string }[]>();
+  if (ids.length > 0) {
+    const found = await executor
+      .select({ id: medicines.id, name: medicines.name })
+      .from(medicines)
+      .where(inArray(medicines.id, ids));
+    found.forEach((medicine) => byId.set(medicine.id, medicine));
+  }
+  if (names.length > 0) {
+    const found = await executor
+      .select({ id: medicines.id, name: medicines.name })
+      .from(medicines)
+      .where(inArray(sql`lower(${medicines.name})`, names));
+    for (const medicine of found) {
+      const key = medicine.name.toLowerCase();
+      byName.set(key, [...(byName.get(key) ?? []), medicine]);
+    }
+  }
+
+  const errors: RowError[] = [];
+  const items = new Map<number, PlannedItem>();
+  const seenKeys = new Map<string, number>();
+
+  for (const row of rows) {
+    const rowErrors: RowError[] = [];
+    const fail = (column: Column | undefined, message: string) => rowErrors.push({ row: row.row, column, message });
+
+    let medicine: { id: number; name: string } | undefined;
+    if (row.medicineId) {
+      if (!INTEGER.test(row.medicineId) || parseInt(row.medicineId) <= 0) {
+        fail('medicine_id', 'medicine_id must be a positive integer');
+      } else if (!(medicine = byId.get(parseInt(row.medicineId)))) {
+        fail('medicine_id', `No medicine with id ${row.medicineId}`);
+      }
+    } else if (row.medicineName) {
+      const matches = byName.get(row.medicineName.toLowerCase()) ?? [];
+      if (matches.length === 0) {
+        fail('medicine_name', `No medicine named "${row.medicineName}"`);
+      } else if (matches.length > 1) {
+        fail('medicine_name', `Several medicines are named "${row.medicineName}"; use medicine_id instead`);
+      } else {
+        medicine = matches[0];
+      }
+    } else {
+      fail('medicine_id', 'medicine_id or medicine_name is required');
+    }
+
+    if (!INTEGER.test(row.quantity)) {
+      fail('quantity', 'quantity must be a non-negative integer');
+    }
+    if (!DECIMAL.test(row.price) || parseFloat(row.price) <= 0) {
+      fail('price', 'price must be a positive number');
+    }
+    if (row.discount && (!DECIMAL.test(row.discount) || parseFloat(row.discount) > 100)) {
+      fail('discount', 'discount must be a percentage between 0 and 100');
+    }
+    if (row.batch && !row.expiry) {
+      fail('expiry', 'expiry is required for a batch');
+    } else if (row.expiry && !row.batch) {
+      fail('batch', 'batch is required when expiry is given');
+    } else if (row.expiry && !isValidIsoDate(row.expiry)) {
+      fail('expiry', 'expiry must be a date in YYYY-MM-DD format');
+    }
+    if (row.purchasePrice && !DECIMAL.test(row.purchasePrice)) {
+      fail('purchase_price', 'purchase_price must be a non-negative number');
+    }
+
+    if (medicine) {
+      const key = `${medicine.id}:${row.batch}`;
+      const duplicateOf = seenKeys.get(key);
+      if (duplicateOf !== undefined) {
+        fail(row.batch ? 'batch' : undefined, `Duplicates row ${duplicateOf} for the same medicine${row.batch ? ' and batch' : ''}`);
+      } else {
+        seenKeys.set(key, row.row);
+      }
+
+      const item = items.get(medicine.id);
+      if (item && rowErrors.length === 0) {
+        const discount = row.discount ? parseFloat(row.discount) : null;
+        if (item.price !== parseFloat(row.price) || (discount !== null && item.discount !== null && item.discount !== discount)) {
+          fail('price', `Price or discount differs from row ${item.rows[0]} for the same medicine`);
+        }
+      }
+    }
+
+    if (rowErrors.length > 0 || !medicine) {
+      errors.push(...rowErrors);
+      continue;
+    }
+
+    const item = items.get(medicine.id) ?? {
+      rows: [],
+      medicineId: medicine.id,
+      medicineName: medicine.name,
+      inventoryId: null,
+      action: 'create',
+      price: parseFloat(row.price),
+      discount: null,
+      untrackedQuantity: null,
+      batches: [],
+    };
+    item.rows.push(row.row);
+    if (row.discount) {
+      item.discount = parseFloat(row.discount);
+    }
+    if (row.batch) {
+      item.batches.push({
+        row: row.row,
+        batchNumber: row.batch,
+        expiryDate: row.expiry,
+        quantity: parseInt(row.quantity),
+        purchasePrice: row.purchasePrice ? parseFloat(row.purchasePrice) : null,
+        action: 'create',
+      });
+    } else {
+      item.untrackedQuantity = parseInt(row.quantity);
+    }
+    items.set(medicine.id, item);
+  }
+
+  // Match against the pharmacy's current stock
+  const planned = [...items.values()];
+  if (planned.length > 0) {
+    const existing = await executor
+      .select({ id: inventory.id, medicineId: inventory.medicineId })
+      .from(inventory)
+      .where(and(eq(inventory.pharmacyId, pharmacyId), inArray(inventory.medicineId, planned.map((item) => item.medicineId))))
+      .orderBy(asc(inventory.id));
+
+    const inventoryIds = existing.map((record) => record.id);
+    const batches = inventoryIds.length === 0 ? [] : await executor
+      .select({ inventoryId: inventoryBatches.inventoryId, batchNumber: inventoryBatches.batchNumber })
+      .from(inventoryBatches)
+      .where(inArray(inventoryBatches.inventoryId, inventoryIds));
+
+    const today = todayIso();
+    for (const item of planned) {
+      const record = existing.find((candidate) => candidate.medicineId === item.medicineId);
+      if (record) {
+        item.inventoryId = record.id;
+        item.action = 'update';
+      }
+
+      for (const batch of item.batches) {
+        const known = record && batches.some(
+          (candidate) => candidate.inventoryId === record.id && candidate.batchNumber === batch.batchNumber
+        );
+        if (known) {
+          batch.action = 'update';
+        } else if (batch.expiryDate < today) {
+          errors.push({ row: batch.row, column: 'expiry', message: 'Cannot receive a batch that has already expired' });
+        }
+      }
+    }
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  return { items: planned, errors, rowCount: rows.length };
+}
+
+export function summarizeImportPlan(plan: ImportPlan) {
+  const batches = plan.items.flatMap((item) => item.batches);
+  return {
+    rows: plan.rowCount,
+    itemsCreated: plan.items.filter((item) => item.action === 'create').length,
+    itemsUpdated: plan.items.filter((item) => item.action === 'update').length,
+    batchesCreated: batches.filter((batch) => batch.action === 'create').length,
+    batchesUpdated: batches.filter((batch) => batch.action === 'update').length,
+  };
+}
+
+// Write a validated plan. `inventory.quantity` becomes the sum of the item's
+// batches plus its untracked units, so it stays consistent with the batches.
+export async function applyInventoryImport(executor: Executor, pharmacyId: number, plan: ImportPlan) {
+  const now = new Date().toISOString();
+
+  for (const item of plan.items) {
+    let inventoryId = item.inventoryId;
+    let untracked = item.untrackedQuantity;
+
+    if (inventoryId === null) {
+      const [created] = await executor
+        .insert(inventory)
+        .values({
+          pharmacyId,
+          medicineId: item.medicineId,
+          quantity: 0,
+          price: item.price,
+          discountPercentage: item.discount ?? 0,
+          isAvailable: true,
+          lastUpdated: now,
+        })
+        .returning();
+      inventoryId = created.id;
+      untracked ??= 0;
+    } else if (untracked === null) {
+      const [current] = await executor
+        .select({
+          quantity: inventory.quantity,
+          tracked: sql<number>`coalesce((select sum(${inventoryBatches.quantity}) from ${inventoryBatches} where ${inventoryBatches.inventoryId} = ${inventoryId}), 0)`,
+        })
+        .from(inventory)
+        .where(eq(inventory.id, inventoryId));
+      untracked = Math.max(current.quantity - current.tracked, 0);
+    }
+
+    for (const batch of item.batches) {
+      await executor
+        .insert(inventoryBatches)
+        .values({
+          inventoryId,
+          batchNumber: batch.batchNumber,
+          expiryDate: batch.expiryDate,
+          quantity: batch.quantity,
+          purchasePrice: batch.purchasePrice ?? 0,
+          receivedAt: now,
+          updatedAt: now,
+        })
+        .onConflictDoUpdate({
+          target: [inventoryBatches.inventoryId, inventoryBatches.batchNumber],
+          set: {
+            expiryDate: batch.expiryDate,
+            quantity: batch.quantity,
+            ...(batch.purchasePrice !== null && { purchasePrice: batch.purchasePrice }),
+            updatedAt: now,
+          },
+        });
+    }
+
+    const [{ tracked }] = await executor
+      .select({ tracked: sql<number>`coalesce(sum(${inventoryBatches.quantity}), 0)` })
+      .from(inventoryBatches)
+      .where(eq(inventoryBatches.inventoryId, inventoryId));
+
+    await executor
+      .update(inventory)
+      .set({
+        quantity: tracked + untracked,
+        price: item.price,
+        ...(item.discount !== null && { discountPercentage: item.discount }),
+        lastUpdated: now,
+      })
+      .where(eq(inventory.id, inventoryId));
+  }
+
+  return summarizeImportPlan(plan);
+}
+
+// The pharmacy's stock in the import format, by medicine name
+export async function exportInventoryCsv(executor: Executor, pharmacyId: number): Promise<string> {
+  const rows = await executor
+    .select({ stock: inventory, medicineName: medicines.name, batch: inventoryBatches })
+    .from(inventory)
+    .innerJoin(medicines, eq(inventory.medicineId, medicines.id))
+    .leftJoin(inventoryBatches, eq(inventoryBatches.inventoryId, inventory.id))
+    .where(eq(inventory.pharmacyId, pharmacyId))
+    .orderBy(asc(medicines.name), asc(inventory.id), asc(inventoryBatches.expiryDate), asc(inventoryBatches.batchNumber));
+
+  const lines: (string | number | null)[][] = [];
+  const line = (stock: typeof inventory.$inferSelect, medicineName: string, quantity: number, batch?: typeof inventoryBatches.$inferSelect) => [
+    stock.medicineId,
+    safeSpreadsheetText(medicineName),
+    quantity,
+    stock.price,
+    stock.discountPercentage ?? 0,
+    batch ? safeSpreadsheetText(batch.batchNumber) : '',
+    batch?.expiryDate ?? '',
+    batch?.purchasePrice ?? '',
+  ];
+
+  for (let i = 0; i < rows.length;) {
+    const { stock, medicineName } = rows[i];
+    let tracked = 0;
+    for (; i < rows.length && rows[i].stock.id === stock.id; i++) {
+      const batch = rows[i].batch;
+      if (batch) {
+        lines.push(line(stock, medicineName, batch.quantity, batch));
+        tracked += batch.quantity;
+      }
+    }
+
+    const untracked = Math.max(stock.quantity - tracked, 0);
+    if (untracked > 0 || tracked === 0) {
+      lines.push(line(stock, medicineName, untracked));
+    }
+  }
+
+  return toCsv(INVENTORY_CSV_COLUMNS, lines);
+}
@@ -0,0 +1,106 @@
+import { eq, and, gt, inArray } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { inventory, pharmacies } from '@/db/schema';
+import { calculateDistance } from '@/lib/delivery-estimate';
+import { roundCurrency } from '@/lib/orders';
+import { freeQuantity } from '@/lib/stock-reservations';
+
+type Executor = Database | Transaction;
+
+export interface Location {
+  latitude: number;
+  longitude: number;
+  // Search radius in km
+  radius: number;
+}
+
+// A medicine in stock at an active pharmacy within range
+export interface StockOffer {
+  pharmacyId: number;
+  pharmacyName: string;
+  medicineId: number;
+  // Unit price after the pharmacy's discount
+  price: number;
+  quantity: number;
+  distance: number;
+}
+
+export function discountedPrice(stock: { price: number; discountPercentage: number | null }): number {
+  return roundCurrency(stock.price * (1 - (stock.discountPercentage || 0) / 100));
+}
+
+// In-stock offers for each medicine near a location, cheapest first and the
+// nearer pharmacy first at equal prices
+export async function findLocalOffers(
+  executor: Executor,
+  medicineIds: number[],
+  location: Location
+): Promise<Map<number, StockOffer[]>> {
+  const rows = await executor
+    .select({ stock: inventory, pharmacy: pharmacies, free: freeQuantity() })
+    .from(inventory)
+    .innerJoin(pharmacies, eq(inventory.pharmacyId, pharmacies.id))
+    .where(
+      and(
+        inArray(inventory.medicineId, medicineIds),
+        gt(freeQuantity(), 0),
+        eq(inventory.isAvailable, true),
+        eq(pharmacies.isActive, true)
+      )
+    );
+
+  const offers = new Map<number, StockOffer[]>();
+  for (const { stock, pharmacy, free } of rows) {
+    const distance = calculateDistance(location.latitude, location.longitude, pharmacy.latitude, pharmacy.longitude);
+    if (distance > location.radius) continue;
+
+    const offer: StockOffer = {
+      pharmacyId: pharmacy.id,
+      pharmacyName: pharmacy.pharmacyName,
+      medicineId: stock.medicineId,
+      price: discountedPrice(stock),
+      quantity: free,
+      distance,
+    };
+    offers.set(stock.medicineId, [...(offers.get(stock.medicineId) ?? []), offer]);
+  }
+
+  for (const list of offers.values()) {
+    list.sort((a, b) => a.price - b.price || a.distance - b.distance);
+  }
+  return offers;
+}
+
+// Where a substitute can be bought nearby: the cheapest pharmacy stocking it,
+// and what switching saves against the original medicine at that pharmacy
+export interface SubstituteAvailability {
+  pharmacyId: number;
+  pharmacyName: string;
+  price: number;
+  quantity: number;
+  distance: number;
+  // Null when that pharmacy does not stock the original medicine
+  originalPrice: number | null;
+  saving: number | null;
+}
+
+export function substituteAvailability(
+  substituteOffers: StockOffer[] | undefined,
+  originalOffers: StockOffer[]
+): SubstituteAvailability | null {
+  const cheapest = substituteOffers?.[0];
+  if (!cheapest) {
+    return null;
+  }
+
+  const original = originalOffers.find((offer) => offer.pharmacyId === cheapest.pharmacyId);
+  return {
+    pharmacyId: cheapest.pharmacyId,
+    pharmacyName: cheapest.pharmacyName,
+    price: cheapest.price,
+    quantity: cheapest.quantity,
+    distance: cheapest.distance,
+    originalPrice: original?.price ?? null,
+    saving: original ? roundCurrency(original.price - cheapest.price) : null,
+  };
+}
@@ -0,0 +1,48 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { FileStorage } from '@/lib/storage.types';
+
+// Files on the local disk, for development and single-server deployments.
+// The content type is kept in a sidecar file next to the data.
+
+const VALID_KEY = /^[A-Za-z0-9_-][A-Za-z0-9_.\/-]*$/;
+
+export function createLocalStorage(root: string = process.env.STORAGE_LOCAL_DIR || 'uploads'): FileStorage {
+  const base = path.resolve(root);
+
+  const resolve = (key: string) => {
+    const file = path.resolve(base, key);
+    if (!VALID_KEY.test(key) || key.includes('..') || !file.startsWith(base + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, data, contentType) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+      await writeFile(`${file}.type`, contentType);
+    },
+
+    async get(key) {
+      const file = resolve(key);
+      try {
+        const [data, contentType] = await Promise.all([readFile(file), readFile(`${file}.type`, 'utf8')]);
+        return { data: new Uint8Array(data), contentType };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      const file = resolve(key);
+      await rm(file, { force: true });
+      await rm(`${file}.type`, { force: true });
+    },
+  };
+}
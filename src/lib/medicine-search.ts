@@ -0,0 +1,182 @@
+import { sql } from 'drizzle-orm';
+import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { db } from '@/db';
+import { medicines } from '@/db/schema';
+
+// FTS5 index over medicines (see drizzle/0008_medicines_fts.sql). Declared here
+// rather than in the schema so drizzle-kit does not try to manage the virtual
+// table; the rowid is the medicine id.
+export const medicinesFts = sqliteTable('medicines_fts', {
+  rowid: integer('rowid').notNull(),
+  name: text('name'),
+  brand: text('brand'),
+  saltComposition: text('salt_composition'),
+});
+
+const medicinesFtsVocab = sqliteTable('medicines_fts_vocab', {
+  term: text('term').notNull(),
+});
+
+// Column weights for bm25: a hit in the name counts for more than the brand,
+// which counts for more than the salt composition
+const NAME_WEIGHT = 10;
+const BRAND_WEIGHT = 5;
+const SALT_WEIGHT = 1;
+
+// Most spelling corrections considered for one query word
+const MAX_CORRECTIONS = 5;
+
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+// FTS5 wraps matches in these private-use characters, which cannot occur in
+// catalog text, so the text can be escaped before the <mark> tags go in
+const MATCH_START = '\uE000';
+const MATCH_END = '\uE001';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+// Escaped field text with its matched words in <mark> tags
+function markMatches(value: string): string {
+  return escapeHtml(value).replaceAll(MATCH_START, HIGHLIGHT_START).replaceAll(MATCH_END, HIGHLIGHT_END);
+}
+
+// Escape LIKE wildcards so user input matches literally (with `escape '\'`)
+function escapeLike(text: string) {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Split a query the way the index's unicode61 tokenizer splits documents
+export function tokenizeQuery(query: string): string[] {
+  const tokens = query
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  return [...new Set(tokens)];
+}
+
+// Typos tolerated per word: none for short words, where a single edit usually
+// lands on a different drug, more for long names
+function allowedEdits(term: string) {
+  if (term.length < 4) return 0;
+  if (term.length < 8) return 1;
+  return 2;
+}
+
+// Edit distance between two words, giving up once it exceeds `max`
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Indexed terms close enough to a word that matches nothing as typed
+async function correctionsFor(term: string): Promise<string[]> {
+  const maxEdits = allowedEdits(term);
+  if (maxEdits === 0) {
+    return [];
+  }
+
+  const candidates = await db
+    .select({ term: medicinesFtsVocab.term })
+    .from(medicinesFtsVocab)
+    .where(sql`length(${medicinesFtsVocab.term}) between ${term.length - maxEdits} and ${term.length + maxEdits}`);
+
+  return candidates
+    .map((candidate) => ({ term: candidate.term, distance: editDistance(term, candidate.term, maxEdits) }))
+    .filter((candidate) => candidate.distance <= maxEdits)
+    .sort((a, b) => a.distance - b.distance || a.term.localeCompare(b.term))
+    .slice(0, MAX_CORRECTIONS)
+    .map((candidate) => candidate.term);
+}
+
+async function hasPrefixMatch(term: string) {
+  const match = await db
+    .select({ term: medicinesFtsVocab.term })
+    .from(medicinesFtsVocab)
+    .where(sql`${medicinesFtsVocab.term} >= ${term} and ${medicinesFtsVocab.term} < ${term + '\uffff'}`)
+    .limit(1);
+  return match.length > 0;
+}
+
+function quote(term: string) {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+// Build an FTS5 MATCH expression requiring every query word. Words are matched
+// as prefixes so partial input works; a word with no prefix match is replaced
+// by the closest indexed spellings. Returns null when the query has no words.
+export async function buildMatchExpression(query: string): Promise<string | null> {
+  const tokens = tokenizeQuery(query);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const groups = await Promise.all(
+    tokens.map(async (token) => {
+      if (await hasPrefixMatch(token)) {
+        return `${quote(token)}*`;
+      }
+      const corrections = await correctionsFor(token);
+      if (corrections.length === 0) {
+        return `${quote(token)}*`;
+      }
+      return `(${corrections.map(quote).join(' OR ')})`;
+    })
+  );
+
+  return groups.join(' AND ');
+}
+
+export function ftsMatch(expression: string) {
+  return sql`${medicinesFts} MATCH ${expression}`;
+}
+
+// Higher is better. bm25 is negated so it sorts descending like the boosts;
+// an exact or leading name match outranks anything found only in the salts.
+export function relevanceScore(query: string) {
+  const normalized = query.trim().toLowerCase();
+  return sql<number>`(
+    -bm25(${medicinesFts}, ${NAME_WEIGHT}, ${BRAND_WEIGHT}, ${SALT_WEIGHT})
+    + case
+        when lower(${medicines.name}) = ${normalized} then 100
+        when lower(${medicines.name}) like ${escapeLike(normalized) + '%'} escape '\\' then 10
+        else 0
+      end
+  )`;
+}
+
+// HTML-escaped text with matched words wrapped in <mark> tags, per searchable field
+export const matchHighlights = {
+  name: sql<string>`highlight(${medicinesFts}, 0, ${MATCH_START}, ${MATCH_END})`.mapWith(markMatches),
+  brand: sql<string>`highlight(${medicinesFts}, 1, ${MATCH_START}, ${MATCH_END})`.mapWith(markMatches),
+  saltComposition: sql<string>`snippet(${medicinesFts}, 2, ${MATCH_START}, ${MATCH_END}, '…', 12)`.mapWith(markMatches),
+};
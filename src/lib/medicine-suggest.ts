@@ -0,0 +1,215 @@
+import { db } from '@/db';
+import { medicines } from '@/db/schema';
+
+// As-you-type suggestions served from an in-memory prefix index over the
+// catalog. The index is built from the medicines table on first use, refreshed
+// in the background once it is older than INDEX_TTL_MS, and dropped whenever
+// /api/medicines changes the catalog so the next lookup sees the change.
+
+export type SuggestionType = 'medicine' | 'brand' | 'salt' | 'category';
+
+export interface Suggestion {
+  type: SuggestionType;
+  label: string;
+  // Set for medicine suggestions; brand and salt suggestions may cover several
+  medicineId?: number;
+  category?: string;
+}
+
+interface IndexEntry {
+  suggestion: Suggestion;
+  normalized: string;
+  // Medicines sharing this brand, salt or category; more means more useful
+  popularity: number;
+}
+
+interface SuggestIndex {
+  entries: IndexEntry[];
+  // (key, entry) pairs sorted by key, one per word start of each entry
+  keys: { key: string; entry: number }[];
+  builtAt: number;
+}
+
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+// Upper bound on index keys scored per lookup, so one- or two-letter prefixes
+// stay fast on a large catalog
+const MAX_KEYS_SCANNED = 2000;
+
+// Earlier types win ties: a medicine name is the most likely thing being typed
+const TYPE_WEIGHT: Record<SuggestionType, number> = {
+  medicine: 4,
+  brand: 3,
+  salt: 2,
+  category: 1,
+};
+
+// Kept on globalThis so route modules reloaded in development share one index
+const globalForSuggest = globalThis as unknown as {
+  medicineSuggestIndex?: SuggestIndex;
+  medicineSuggestBuild?: Promise<SuggestIndex>;
+  // Bumped on invalidation so a build started before a catalog change is discarded
+  medicineSuggestGeneration?: number;
+};
+
+export function normalizeSuggestText(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// "Metformin Hydrochloride 500mg, Glibenclamide 5mg" -> individual salts
+// without their strengths
+function saltNames(saltComposition: string) {
+  return saltComposition
+    .split(/[,+]/)
+    .map((salt) => salt.replace(/\b\d+(\.\d+)?\s*(mg|mcg|g|ml|iu|%)?(?=\s|$)/gi, '').replace(/\s+/g, ' ').trim())
+    .filter((salt) => salt.length > 1 && salt.toUpperCase() !== 'N/A');
+}
+
+function categoryLabel(category: string) {
+  return category
+    .split('_')
+    .map((word) => (word === 'otc' ? 'OTC' : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join(' ');
+}
+
+async function buildIndex(): Promise<SuggestIndex> {
+  const catalog = await db
+    .select({
+      id: medicines.id,
+      name: medicines.name,
+      brand: medicines.brand,
+      saltComposition: medicines.saltComposition,
+      category: medicines.category,
+    })
+    .from(medicines);
+
+  const byKey = new Map<string, IndexEntry>();
+  const add = (suggestion: Suggestion) => {
+    const normalized = normalizeSuggestText(suggestion.label);
+    if (!normalized) return;
+    const dedupeKey = suggestion.type === 'medicine'
+      ? `medicine:${suggestion.medicineId}`
+      : `${suggestion.type}:${normalized}`;
+    const existing = byKey.get(dedupeKey);
+    if (existing) {
+      existing.popularity += 1;
+      return;
+    }
+    byKey.set(dedupeKey, { suggestion, normalized, popularity: 1 });
+  };
+
+  for (const medicine of catalog) {
+    add({ type: 'medicine', label: medicine.name, medicineId: medicine.id, category: medicine.category });
+    add({ type: 'brand', label: medicine.brand });
+    for (const salt of saltNames(medicine.saltComposition)) {
+      add({ type: 'salt', label: salt });
+    }
+    add({ type: 'category', label: categoryLabel(medicine.category), category: medicine.category });
+  }
+
+  const entries = [...byKey.values()];
+  const keys: SuggestIndex['keys'] = [];
+  entries.forEach((entry, index) => {
+    const words = entry.normalized.split(' ');
+    // Index every word start so "hydro" finds "Metformin Hydrochloride"
+    words.forEach((_, start) => {
+      keys.push({ key: words.slice(start).join(' '), entry: index });
+    });
+  });
+  keys.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+  return { entries, keys, builtAt: Date.now() };
+}
+
+function rebuild() {
+  if (!globalForSuggest.medicineSuggestBuild) {
+    const generation = globalForSuggest.medicineSuggestGeneration ?? 0;
+    const build = buildIndex()
+      .then((index) => {
+        if (generation === (globalForSuggest.medicineSuggestGeneration ?? 0)) {
+          globalForSuggest.medicineSuggestIndex = index;
+        }
+        return index;
+      })
+      .finally(() => {
+        if (globalForSuggest.medicineSuggestBuild === build) {
+          globalForSuggest.medicineSuggestBuild = undefined;
+        }
+      });
+    globalForSuggest.medicineSuggestBuild = build;
+  }
+  return globalForSuggest.medicineSuggestBuild;
+}
+
+async function getIndex(): Promise<SuggestIndex> {
+  const index = globalForSuggest.medicineSuggestIndex;
+  if (!index) {
+    return rebuild();
+  }
+  if (Date.now() - index.builtAt > INDEX_TTL_MS) {
+    // Serve the stale index rather than make this request wait
+    rebuild().catch((error) => console.error('Suggest index refresh failed:', error));
+  }
+  return index;
+}
+
+// Drop the index after a catalog change; the next lookup rebuilds it
+export function invalidateSuggestIndex() {
+  globalForSuggest.medicineSuggestGeneration = (globalForSuggest.medicineSuggestGeneration ?? 0) + 1;
+  globalForSuggest.medicineSuggestIndex = undefined;
+  globalForSuggest.medicineSuggestBuild = undefined;
+}
+
+// First key >= prefix
+function lowerBound(keys: SuggestIndex['keys'], prefix: string) {
+  let low = 0;
+  let high = keys.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (keys[mid].key < prefix) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+export async function suggestMedicines(query: string, limit: number): Promise<Suggestion[]> {
+  const prefix = normalizeSuggestText(query);
+  if (!prefix) {
+    return [];
+  }
+
+  const index = await getIndex();
+  const scores = new Map<number, number>();
+
+  const first = lowerBound(index.keys, prefix);
+  const last = Math.min(index.keys.length, first + MAX_KEYS_SCANNED);
+  for (let i = first; i < last; i++) {
+    const { key, entry } = index.keys[i];
+    if (!key.startsWith(prefix)) break;
+
+    const { normalized, suggestion, popularity } = index.entries[entry];
+    // Matching from the first word beats matching a later word
+    const position = normalized.startsWith(prefix) ? 2 : 1;
+    const exact = normalized === prefix ? 1 : 0;
+    const score =
+      exact * 100 +
+      position * 10 +
+      TYPE_WEIGHT[suggestion.type] +
+      Math.min(popularity, 10) / 10 -
+      normalized.length / 1000;
+    scores.set(entry, Math.max(scores.get(entry) ?? -Infinity, score));
+  }
+
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([entry]) => index.entries[entry].suggestion);
+}
@@ -0,0 +1,22 @@
+import type { OcrEngine } from '@/lib/ocr.types';
+
+// In-process engine for local development and tests: every image "reads" as
+// the text in OCR_MOCK_TEXT, one prescription line per line of text, with a
+// fixed confidence. Nothing is actually recognised.
+
+const MOCK_CONFIDENCE = 0.9;
+
+export function createMockOcrEngine(text: string = process.env.OCR_MOCK_TEXT ?? ''): OcrEngine {
+  return {
+    name: 'mock',
+
+    async recognize() {
+      const lines = text
+        .split(/\r?\n|\\n/)
+        .map((line) => line.trim())
+        .filter((line) => line !== '')
+        .map((line) => ({ text: line, confidence: MOCK_CONFIDENCE }));
+      return { text: lines.map((line) => line.text).join('\n'), lines };
+    },
+  };
+}
@@ -0,0 +1,179 @@
+import { createHmac, randomBytes } from 'crypto';
+import { ApiError } from '@/lib/api-error';
+import type {
+  GatewayOrder,
+  GatewayPayment,
+  GatewayRefund,
+  GatewayWebhookEvent,
+  GatewayWebhookEventType,
+  PaymentGateway,
+} from '@/lib/payment-gateway.types';
+
+// In-process gateway for local development and tests. Ids are sequential
+// behind a random per-process nonce, so a restarted or reloaded server never
+// reissues an id already stored in payments; signatures use a fixed secret.
+// Nothing leaves the process.
+
+const MOCK_SECRET = process.env.MOCK_PAYMENT_SECRET || 'mock_payment_secret';
+
+interface MockState {
+  nonce: string;
+  sequence: number;
+  orders: Map<string, GatewayOrder>;
+  payments: Map<string, GatewayPayment>;
+  refunds: Map<string, GatewayRefund>;
+}
+
+// Kept on globalThis so route modules reloaded in development share one store
+const globalForMock = globalThis as unknown as { mockPaymentState?: MockState };
+
+function state(): MockState {
+  if (!globalForMock.mockPaymentState) {
+    globalForMock.mockPaymentState = {
+      nonce: randomBytes(4).toString('hex'),
+      sequence: 0,
+      orders: new Map(),
+      payments: new Map(),
+      refunds: new Map(),
+    };
+  }
+  return globalForMock.mockPaymentState;
+}
+
+function nextId(prefix: string) {
+  const store = state();
+  store.sequence += 1;
+  return `${prefix}_mock_${store.nonce}_${String(store.sequence).padStart(6, '0')}`;
+}
+
+function sign(data: string) {
+  return createHmac('sha256', MOCK_SECRET).update(data).digest('hex');
+}
+
+export function resetMockPaymentGateway() {
+  globalForMock.mockPaymentState = undefined;
+}
+
+export function createMockGateway(): PaymentGateway {
+  return {
+    name: 'mock',
+
+    async createOrder({ amount, currency, receipt, notes = {} }) {
+      const order: GatewayOrder = {
+        id: nextId('order'),
+        amount,
+        currency,
+        status: 'created',
+        receipt,
+        notes,
+      };
+      state().orders.set(order.id, order);
+      return { ...order };
+    },
+
+    async fetchPayment(providerPaymentId) {
+      const payment = state().payments.get(providerPaymentId);
+      if (!payment) {
+        throw new Error(`Mock payment ${providerPaymentId} not found`);
+      }
+      return { ...payment };
+    },
+
+    async refund(providerPaymentId, { amount, notes = {} }) {
+      const store = state();
+      const payment = store.payments.get(providerPaymentId);
+      if (!payment || payment.status !== 'captured') {
+        throw new Error(`Mock payment ${providerPaymentId} is not captured`);
+      }
+
+      const refunded = [...store.refunds.values()]
+        .filter((refund) => refund.paymentId === providerPaymentId)
+        .reduce((sum, refund) => sum + refund.amount, 0);
+
+      if (refunded + amount > payment.amount) {
+        throw new Error('Mock refund exceeds the captured amount');
+      }
+
+      const refund: GatewayRefund = {
+        id: nextId('rfnd'),
+        paymentId: providerPaymentId,
+        amount,
+        currency: payment.currency,
+        status: 'processed',
+        notes,
+      };
+      store.refunds.set(refund.id, refund);
+      return { ...refund };
+    },
+
+    verifySignature({ providerOrderId, providerPaymentId, signature }) {
+      return sign(`${providerOrderId}|${providerPaymentId}`) === signature;
+    },
+
+    parseWebhook(body, headers) {
+      const signature = headers.get('x-mock-signature');
+      if (!signature) {
+        throw new ApiError('Missing signature header', 'MISSING_SIGNATURE', 400);
+      }
+
+      if (sign(body) !== signature) {
+        throw new ApiError('Invalid webhook signature', 'INVALID_SIGNATURE', 401);
+      }
+
+      const event: Omit<GatewayWebhookEvent, 'eventId'> = JSON.parse(body);
+      return { ...event, eventId: headers.get('x-mock-event-id') };
+    },
+  };
+}
+
+// Plays the customer's part of checkout: pays (or fails to pay) a mock order
+// and returns what the checkout widget would hand back to the browser
+export function simulateMockPayment(
+  providerOrderId: string,
+  { outcome = 'captured', method = 'upi' }: { outcome?: 'captured' | 'failed'; method?: string } = {}
+) {
+  const store = state();
+  const order = store.orders.get(providerOrderId);
+  if (!order) {
+    throw new ApiError('Mock gateway order not found', 'GATEWAY_ORDER_NOT_FOUND', 404);
+  }
+
+  if (order.status === 'paid') {
+    throw new ApiError('Mock gateway order is already paid', 'GATEWAY_ORDER_PAID', 409);
+  }
+
+  const payment: GatewayPayment = {
+    id: nextId('pay'),
+    orderId: order.id,
+    amount: order.amount,
+    currency: order.currency,
+    status: outcome,
+    method,
+    errorReason: outcome === 'failed' ? 'Payment declined by mock gateway' : null,
+    notes: order.notes,
+  };
+  store.payments.set(payment.id, payment);
+  order.status = outcome === 'captured' ? 'paid' : 'attempted';
+
+  return {
+    order: { ...order },
+    payment: { ...payment },
+    signature: sign(`${order.id}|${payment.id}`),
+  };
+}
+
+// Builds a signed webhook request body and headers for the mock gateway
+export function buildMockWebhook(
+  event: GatewayWebhookEventType,
+  entities: Pick<GatewayWebhookEvent, 'order' | 'payment' | 'refund'>
+) {
+  const body = JSON.stringify({ event, ...entities });
+  return {
+    body,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-mock-signature': sign(body),
+      'x-mock-event-id': nextId('evt'),
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import type { Database, Transaction } from '@/db';
+import { notifications } from '@/db/schema';
+
+type Executor = Database | Transaction;
+
+export const NOTIFICATION_TYPES = ['prescription_needs_resubmission', 'prescription_reviewed', 'order_stock_shortfall'] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: unknown;
+}
+
+// Leave a message in the user's notification feed (/api/notifications)
+export async function notifyUser(executor: Executor, userId: number, { type, title, message, data }: NotificationInput) {
+  const [entry] = await executor
+    .insert(notifications)
+    .values({
+      userId,
+      type,
+      title,
+      message,
+      data: data === undefined ? null : JSON.stringify(data),
+      createdAt: new Date().toISOString(),
+    })
+    .returning();
+
+  return entry;
+}
@@ -0,0 +1,23 @@
+import { createMockOcrEngine } from '@/lib/mock-ocr';
+import { createTesseractEngine } from '@/lib/tesseract-ocr';
+import type { OcrEngine } from '@/lib/ocr.types';
+
+let engine: OcrEngine | undefined;
+
+// The configured OCR engine, chosen with OCR_ENGINE (tesseract by default)
+export function getOcrEngine(): OcrEngine {
+  if (!engine) {
+    const name = process.env.OCR_ENGINE || 'tesseract';
+    switch (name) {
+      case 'tesseract':
+        engine = createTesseractEngine();
+        break;
+      case 'mock':
+        engine = createMockOcrEngine();
+        break;
+      default:
+        throw new Error(`Unknown OCR engine: ${name}`);
+    }
+  }
+  return engine;
+}
@@ -0,0 +1,18 @@
+export type OcrEngineName = 'tesseract' | 'mock';
+
+export interface OcrLine {
+  text: string;
+  // 0-1, how sure the engine is it read the line correctly
+  confidence: number;
+}
+
+export interface OcrResult {
+  text: string;
+  lines: OcrLine[];
+}
+
+// Reads the text off an uploaded prescription without sending it anywhere
+export interface OcrEngine {
+  name: OcrEngineName;
+  recognize(data: Uint8Array, contentType: string): Promise<OcrResult>;
+}
@@ -0,0 +1,27 @@
+import { orders } from '@/db/schema';
+import { refundOrder } from '@/lib/refunds';
+
+type Order = typeof orders.$inferSelect;
+
+const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+
+// Side effects of an order reaching `cancelled`, run after the status change
+// has been committed. The change itself gave back the order's stock,
+// reservations and refills; this returns the money. A failed refund does not
+// undo the cancellation; it is reported so support can retry it through
+// /api/payment/refund.
+export async function handleOrderCancelled(order: Order) {
+  let refund = null;
+  let refundError: string | null = null;
+
+  if (REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+    try {
+      refund = await refundOrder(order, 'Order cancelled');
+    } catch (error) {
+      console.error('Automatic refund failed for order', order.id, error);
+      refundError = (error as Error).message;
+    }
+  }
+
+  return { refund, refundError };
+}
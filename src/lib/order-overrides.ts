@@ -0,0 +1,33 @@
+import type { Database, Transaction } from '@/db';
+import { orderOverrides } from '@/db/schema';
+
+// Safety checks a pharmacist may override for an order
+export const ORDER_OVERRIDE_TYPES = ['interaction', 'prescription'] as const;
+
+export type OrderOverrideType = typeof ORDER_OVERRIDE_TYPES[number];
+
+// Override notes are the audit trail, so they must say something
+export const MIN_OVERRIDE_NOTE_LENGTH = 10;
+
+export async function recordOrderOverride(
+  executor: Database | Transaction,
+  orderId: number,
+  type: OrderOverrideType,
+  overriddenBy: number,
+  note: string,
+  details?: unknown
+) {
+  const [entry] = await executor
+    .insert(orderOverrides)
+    .values({
+      orderId,
+      type,
+      overriddenBy,
+      note,
+      details: details === undefined ? null : JSON.stringify(details),
+      createdAt: new Date().toISOString(),
+    })
+    .returning();
+
+  return entry;
+}
@@ -0,0 +1,223 @@
+import { eq, and } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { orders, orderStatusHistory } from '@/db/schema';
+import { ApiError } from '@/lib/api-error';
+import { unreviewedSevereInteractions } from '@/lib/interactions';
+import { MIN_OVERRIDE_NOTE_LENGTH, recordOrderOverride } from '@/lib/order-overrides';
+import { PRESCRIPTION_GATED_STATUSES, checkPrescriptionGate } from '@/lib/prescription-gate';
+import { dispenseRefills, restoreRefills } from '@/lib/prescription-refills';
+import { convertReservations, releaseReservations, reservationShortfalls, restockOrder } from '@/lib/stock-reservations';
+
+export const ORDER_STATUSES = [
+  'pending',
+  'confirmed',
+  'preparing',
+  'ready',
+  'picked_up',
+  'out_for_delivery',
+  'delivered',
+  'cancelled'
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export const INITIAL_ORDER_STATUS: OrderStatus = 'pending';
+
+// Allowed next statuses for each status. Cancellation is only possible
+// before the rider picks the order up; delivered and cancelled are final.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['preparing', 'cancelled'],
+  preparing: ['ready', 'cancelled'],
+  ready: ['picked_up', 'cancelled'],
+  picked_up: ['out_for_delivery'],
+  out_for_delivery: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+type Order = typeof orders.$inferSelect;
+
+interface StatusChangeOptions {
+  changedBy?: number | null;
+  note?: string | null;
+  // A pharmacist's reason for going ahead without a verified prescription
+  prescriptionOverride?: string | null;
+  // A pharmacist's reason for dispensing medicines that interact severely
+  interactionOverride?: string | null;
+}
+
+export function isOrderStatus(status: string): status is OrderStatus {
+  return ORDER_STATUSES.includes(status as OrderStatus);
+}
+
+export function canTransition(from: string, to: string): boolean {
+  if (!isOrderStatus(from) || !isOrderStatus(to)) return false;
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export async function recordStatusChange(
+  executor: Database | Transaction,
+  orderId: number,
+  fromStatus: string | null,
+  toStatus: string,
+  { changedBy = null, note = null }: StatusChangeOptions = {}
+) {
+  const [entry] = await executor
+    .insert(orderStatusHistory)
+    .values({
+      orderId,
+      fromStatus,
+      toStatus,
+      changedBy,
+      note,
+      changedAt: new Date().toISOString(),
+    })
+    .returning();
+
+  return entry;
+}
+
+// Move an order to a new status, rejecting transitions the graph does not
+// allow. The update is conditional on the status we validated against so a
+// concurrent change cannot be silently overwritten. An order with
+// prescription-only medicines is not confirmed or prepared before its
+// prescription is verified, unless the change carries a recorded override;
+// the same goes for an order with severely interacting medicines.
+// A paid order that was short of stock is only confirmed once it can take it.
+export async function transitionOrderStatus(
+  executor: Database | Transaction,
+  order: Order,
+  toStatus: string,
+  options: StatusChangeOptions = {}
+): Promise<Order> {
+  if (!isOrderStatus(toStatus)) {
+    throw new ApiError(
+      `Invalid status. Must be one of: ${ORDER_STATUSES.join(', ')}`,
+      'INVALID_STATUS'
+    );
+  }
+
+  if (!canTransition(order.status, toStatus)) {
+    throw new ApiError(
+      `Cannot change order status from ${order.status} to ${toStatus}`,
+      'INVALID_STATUS_TRANSITION',
+      409,
+      {
+        currentStatus: order.status,
+        allowedStatuses: isOrderStatus(order.status) ? ORDER_STATUS_TRANSITIONS[order.status] : [],
+      }
+    );
+  }
+
+  const gate = PRESCRIPTION_GATED_STATUSES.includes(toStatus)
+    ? await checkPrescriptionGate(executor, order)
+    : null;
+  const override = options.prescriptionOverride?.trim();
+
+  if (gate && !gate.satisfied) {
+    if (!override) {
+      throw new ApiError(
+        'Order contains prescription medicines without a prescription verified by this pharmacy',
+        'PRESCRIPTION_NOT_VERIFIED',
+        409,
+        { medicineIds: gate.medicineIds }
+      );
+    }
+    if (override.length < MIN_OVERRIDE_NOTE_LENGTH) {
+      throw new ApiError(
+        `prescriptionOverride must be at least ${MIN_OVERRIDE_NOTE_LENGTH} characters`,
+        'INVALID_OVERRIDE_NOTE'
+      );
+    }
+    if (!options.changedBy) {
+      throw new ApiError('A prescription override must be made by a pharmacist', 'OVERRIDE_REQUIRES_USER', 403);
+    }
+  }
+
+  const severeInteractions = PRESCRIPTION_GATED_STATUSES.includes(toStatus)
+    ? await unreviewedSevereInteractions(executor, order.id)
+    : [];
+  const interactionOverride = options.interactionOverride?.trim();
+
+  if (severeInteractions.length > 0) {
+    if (!interactionOverride) {
+      throw new ApiError(
+        'Order contains medicines with severe interactions that a pharmacist has not overridden',
+        'SEVERE_INTERACTION',
+        409,
+        { interactions: severeInteractions }
+      );
+    }
+    if (interactionOverride.length < MIN_OVERRIDE_NOTE_LENGTH) {
+      throw new ApiError(
+        `interactionOverride must be at least ${MIN_OVERRIDE_NOTE_LENGTH} characters`,
+        'INVALID_OVERRIDE_NOTE'
+      );
+    }
+    if (!options.changedBy) {
+      throw new ApiError('An interaction override must be made by a pharmacist', 'OVERRIDE_REQUIRES_USER', 403);
+    }
+  }
+
+  if (
+    toStatus === 'confirmed' &&
+    ['paid', 'partially_refunded'].includes(order.paymentStatus) &&
+    (await reservationShortfalls(executor, order.id)).length > 0
+  ) {
+    const { shortfalls } = await convertReservations(executor, order.id);
+    if (shortfalls.length > 0) {
+      throw new ApiError(
+        'Order is short of stock it was paid for; restock it or cancel the order',
+        'STOCK_SHORTFALL',
+        409,
+        { shortfalls }
+      );
+    }
+  }
+
+  const updated = await executor
+    .update(orders)
+    .set({ status: toStatus, updatedAt: new Date().toISOString() })
+    .where(and(eq(orders.id, order.id), eq(orders.status, order.status)))
+    .returning();
+
+  if (updated.length === 0) {
+    throw new ApiError(
+      'Order status was changed by another request',
+      'STATUS_CONFLICT',
+      409
+    );
+  }
+
+  await recordStatusChange(executor, order.id, order.status, toStatus, options);
+
+  if (gate && !gate.satisfied) {
+    await recordOrderOverride(executor, order.id, 'prescription', options.changedBy!, override!, {
+      fromStatus: order.status,
+      toStatus,
+      medicineIds: gate.medicineIds,
+    });
+  }
+
+  if (severeInteractions.length > 0) {
+    await recordOrderOverride(executor, order.id, 'interaction', options.changedBy!, interactionOverride!, {
+      interactions: severeInteractions,
+    });
+  }
+
+  // Preparing the order dispenses it, which uses up a refill of a reused prescription
+  if (toStatus === 'preparing') {
+    await dispenseRefills(executor, order.id);
+  }
+
+  // A cancelled order gives back its units, held stock and refills with the
+  // status change
+  if (toStatus === 'cancelled') {
+    await restockOrder(executor, order.id);
+    await releaseReservations(executor, order.id);
+    await restoreRefills(executor, order.id);
+  }
+
+  return updated[0];
+}
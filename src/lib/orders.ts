@@ -0,0 +1,31 @@
+// Server-side order helpers
+
+// Order numbers follow the seeded `ORD-<year>-<suffix>` format; the suffix
+// combines a base-36 timestamp with random characters so concurrent
+// placements do not collide on the unique index
+export function generateOrderNumber(now: Date = new Date()): string {
+  const timestamp = now.getTime().toString(36).toUpperCase();
+  const random = Math.random().toString(36).slice(2, 6).toUpperCase().padEnd(4, '0');
+  return `ORD-${now.getFullYear()}-${timestamp}${random}`;
+}
+
+// Round currency values to 2 decimal places
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// What the customer owes for an order: items plus delivery
+export function orderAmountDue(order: { totalAmount: number; deliveryFee: number | null }): number {
+  return roundCurrency(order.totalAmount + (order.deliveryFee ?? 0));
+}
+
+// Price a cart line from a pharmacy's inventory: list price times quantity,
+// less the pharmacy's discount
+export function priceLine(
+  stock: { price: number; discountPercentage: number | null },
+  quantity: number
+): { price: number; discount: number; subtotal: number } {
+  const lineTotal = stock.price * quantity;
+  const discount = roundCurrency(lineTotal * (stock.discountPercentage || 0) / 100);
+  return { price: stock.price, discount, subtotal: roundCurrency(lineTotal - discount) };
+}
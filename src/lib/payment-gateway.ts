@@ -0,0 +1,24 @@
+import { createMockGateway } from '@/lib/mock-payment-gateway';
+import { createRazorpayGateway } from '@/lib/razorpay-gateway';
+import type { GatewayName, PaymentGateway } from '@/lib/payment-gateway.types';
+
+const gateways: Partial<Record<GatewayName, PaymentGateway>> = {};
+
+// The configured gateway, chosen with PAYMENT_GATEWAY (razorpay by default)
+export function configuredGatewayName(): GatewayName {
+  return process.env.PAYMENT_GATEWAY === 'mock' ? 'mock' : 'razorpay';
+}
+
+// Pass the provider stored on a payment to keep talking to the gateway that
+// took it, e.g. when refunding
+export function getPaymentGateway(name: string = configuredGatewayName()): PaymentGateway {
+  if (name !== 'razorpay' && name !== 'mock') {
+    throw new Error(`Unknown payment gateway: ${name}`);
+  }
+
+  if (!gateways[name]) {
+    gateways[name] = name === 'mock' ? createMockGateway() : createRazorpayGateway();
+  }
+
+  return gateways[name]!;
+}
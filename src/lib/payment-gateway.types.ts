@@ -0,0 +1,80 @@
+// Provider-neutral payment shapes. Amounts are in the smallest currency
+// unit (paise), the same unit the gateways and the checkout widget use.
+
+export type GatewayName = 'razorpay' | 'mock';
+
+export interface GatewayOrder {
+  id: string;
+  amount: number;
+  currency: string;
+  status: 'created' | 'attempted' | 'paid';
+  receipt: string | null;
+  notes: Record<string, unknown>;
+}
+
+export interface GatewayPayment {
+  id: string;
+  orderId: string;
+  amount: number;
+  currency: string;
+  status: 'created' | 'authorized' | 'captured' | 'refunded' | 'failed' | 'pending';
+  method: string | null;
+  errorReason: string | null;
+  notes: Record<string, unknown>;
+}
+
+export interface GatewayRefund {
+  id: string;
+  paymentId: string;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'processed' | 'failed';
+  notes: Record<string, unknown>;
+}
+
+export type GatewayWebhookEventType =
+  | 'payment.authorized'
+  | 'payment.failed'
+  | 'payment.captured'
+  | 'order.paid'
+  | 'refund.processed'
+  | 'refund.failed';
+
+export interface GatewayWebhookEvent {
+  // Provider event id; redeliveries of the same event reuse it
+  eventId: string | null;
+  event: GatewayWebhookEventType | string;
+  order?: GatewayOrder;
+  payment?: GatewayPayment;
+  refund?: GatewayRefund;
+}
+
+export interface CreateGatewayOrderInput {
+  amount: number;
+  currency: string;
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface GatewayRefundInput {
+  amount: number;
+  notes?: Record<string, string>;
+}
+
+export interface PaymentSignatureInput {
+  providerOrderId: string;
+  providerPaymentId: string;
+  signature: string;
+}
+
+export interface PaymentGateway {
+  name: GatewayName;
+  createOrder(input: CreateGatewayOrderInput): Promise<GatewayOrder>;
+  fetchPayment(providerPaymentId: string): Promise<GatewayPayment>;
+  refund(providerPaymentId: string, input: GatewayRefundInput): Promise<GatewayRefund>;
+  // Checks the signature the checkout widget returns after payment
+  verifySignature(input: PaymentSignatureInput): boolean;
+  // Verifies and normalizes a webhook request; throws ApiError when the
+  // signature is missing or invalid
+  parseWebhook(body: string, headers: Headers): GatewayWebhookEvent;
+}
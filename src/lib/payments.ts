@@ -0,0 +1,246 @@
+import { eq } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { orders, payments, pharmacies, refunds } from '@/db/schema';
+import { unreviewedSevereInteractions } from '@/lib/interactions';
+import { notifyUser } from '@/lib/notifications';
+import { transitionOrderStatus } from '@/lib/order-status';
+import { checkPrescriptionGate } from '@/lib/prescription-gate';
+import { orderAmountDue } from '@/lib/orders';
+import { reserveCaptureRefund } from '@/lib/refunds';
+import { convertReservations, type StockShortfall } from '@/lib/stock-reservations';
+
+export const PAYMENT_STATUSES = ['created', 'authorized', 'captured', 'failed'] as const;
+export const ORDER_PAYMENT_STATUSES = ['pending', 'paid', 'failed', 'partially_refunded', 'refunded'] as const;
+export const PAYMENT_METHODS = ['online', 'cod'] as const;
+
+// Every order is priced and charged in rupees
+export const PAYMENT_CURRENCY = 'INR';
+
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export function isPaymentMethod(value: unknown): value is PaymentMethod {
+  return PAYMENT_METHODS.includes(value as PaymentMethod);
+}
+
+type Executor = Database | Transaction;
+type Order = typeof orders.$inferSelect;
+type Payment = typeof payments.$inferSelect;
+type Refund = typeof refunds.$inferSelect;
+
+interface PaymentUpdate {
+  providerOrderId: string;
+  providerPaymentId: string;
+  amount: number; // in rupees
+  currency?: string;
+  provider?: string;
+  method?: string | null;
+  errorReason?: string | null;
+  // Our order id from the gateway order/payment notes, used to link a
+  // gateway order we have not stored yet
+  orderId?: number | null;
+}
+
+export async function findPaymentByProviderOrderId(
+  executor: Executor,
+  providerOrderId: string
+): Promise<Payment | null> {
+  const result = await executor
+    .select()
+    .from(payments)
+    .where(eq(payments.providerOrderId, providerOrderId))
+    .limit(1);
+
+  return result[0] ?? null;
+}
+
+// Find the payment row for a gateway order, creating it from the order id in
+// the notes when the gateway order was created outside our create-order flow
+async function resolvePayment(executor: Executor, update: PaymentUpdate): Promise<Payment | null> {
+  const existing = await findPaymentByProviderOrderId(executor, update.providerOrderId);
+  if (existing) return existing;
+
+  if (!update.orderId) return null;
+
+  const order = await executor
+    .select()
+    .from(orders)
+    .where(eq(orders.id, update.orderId))
+    .limit(1);
+
+  if (order.length === 0) return null;
+
+  const now = new Date().toISOString();
+  const [created] = await executor
+    .insert(payments)
+    .values({
+      orderId: order[0].id,
+      provider: update.provider,
+      providerOrderId: update.providerOrderId,
+      amount: update.amount,
+      currency: update.currency ?? PAYMENT_CURRENCY,
+      status: 'created',
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  return created;
+}
+
+// Tell the customer and the pharmacy that a paid order is short of stock
+async function notifyStockShortfall(executor: Executor, order: Order, shortfalls: StockShortfall[]) {
+  const units = shortfalls.reduce((sum, shortfall) => sum + shortfall.quantity, 0);
+  const data = { orderId: order.id, shortfalls };
+
+  await notifyUser(executor, order.userId, {
+    type: 'order_stock_shortfall',
+    title: 'Part of your order is out of stock',
+    message: `Your payment for order ${order.orderNumber} was received, but ${units} unit(s) sold out while it was pending. ` +
+      'The pharmacy will restock or cancel the order, and you will be refunded if it is cancelled.',
+    data,
+  });
+
+  const [pharmacy] = await executor
+    .select({ userId: pharmacies.userId })
+    .from(pharmacies)
+    .where(eq(pharmacies.id, order.pharmacyId));
+
+  if (pharmacy?.userId) {
+    await notifyUser(executor, pharmacy.userId, {
+      type: 'order_stock_shortfall',
+      title: 'Paid order is short of stock',
+      message: `Order ${order.orderNumber} was paid after its reservation lapsed and ${units} unit(s) are no longer in stock. ` +
+        'Restock and confirm it, or cancel it to refund the customer.',
+      data,
+    });
+  }
+}
+
+// Mark a payment captured, flag the order paid, take its reserved stock and
+// confirm it if it is still waiting for payment. An order whose lapsed
+// reservation can no longer be filled stays pending, and the shortfall is
+// returned. A capture for a cancelled order returns a reserved refund for the
+// caller to submit after committing.
+export async function markPaymentCaptured(
+  executor: Executor,
+  update: PaymentUpdate
+): Promise<{ payment: Payment; shortfalls: StockShortfall[]; refund?: Refund } | null> {
+  const payment = await resolvePayment(executor, update);
+  if (!payment) {
+    console.warn('Captured payment for unknown order:', update.providerOrderId);
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const [updatedPayment] = await executor
+    .update(payments)
+    .set({
+      providerPaymentId: update.providerPaymentId,
+      status: 'captured',
+      method: update.method ?? payment.method,
+      errorReason: null,
+      updatedAt: now,
+    })
+    .where(eq(payments.id, payment.id))
+    .returning();
+
+  // A repeated capture leaves the order's payment status alone; a refund may
+  // have moved it on since
+  const [order] = payment.status === 'captured'
+    ? await executor.select().from(orders).where(eq(orders.id, payment.orderId))
+    : await executor
+      .update(orders)
+      .set({ paymentStatus: 'paid', updatedAt: now })
+      .where(eq(orders.id, payment.orderId))
+      .returning();
+
+  // The order was cancelled while the customer paid: give the money back
+  // rather than keep it. A repeated capture (verify and webhook) already did.
+  if (order.status === 'cancelled') {
+    if (payment.status === 'captured') {
+      return { payment: updatedPayment, shortfalls: [] };
+    }
+    const refund = await reserveCaptureRefund(executor, updatedPayment, 'Captured after cancellation');
+    return { payment: updatedPayment, shortfalls: [], refund };
+  }
+
+  const { shortfalls } = await convertReservations(executor, order.id);
+
+  if (shortfalls.length > 0) {
+    // A repeated capture (verify and webhook) has already told them
+    if (payment.status !== 'captured') {
+      await notifyStockShortfall(executor, order, shortfalls);
+    }
+    return { payment: updatedPayment, shortfalls };
+  }
+
+  // An order awaiting prescription or interaction review is confirmed by the
+  // pharmacist instead
+  if (
+    order.status === 'pending' &&
+    (await checkPrescriptionGate(executor, order)).satisfied &&
+    (await unreviewedSevereInteractions(executor, order.id)).length === 0
+  ) {
+    await transitionOrderStatus(executor, order, 'confirmed', {
+      note: `Payment ${update.providerPaymentId} captured`,
+    });
+  }
+
+  return { payment: updatedPayment, shortfalls };
+}
+
+// Mark a payment attempt failed; an order that was already paid by another
+// attempt keeps its paid state
+export async function markPaymentFailed(executor: Executor, update: PaymentUpdate) {
+  const payment = await resolvePayment(executor, update);
+  if (!payment) {
+    console.warn('Failed payment for unknown order:', update.providerOrderId);
+    return null;
+  }
+
+  if (payment.status === 'captured') {
+    return payment;
+  }
+
+  const now = new Date().toISOString();
+  const [updatedPayment] = await executor
+    .update(payments)
+    .set({
+      providerPaymentId: update.providerPaymentId,
+      status: 'failed',
+      method: update.method ?? payment.method,
+      errorReason: update.errorReason ?? null,
+      updatedAt: now,
+    })
+    .where(eq(payments.id, payment.id))
+    .returning();
+
+  const order = await executor
+    .select()
+    .from(orders)
+    .where(eq(orders.id, payment.orderId))
+    .limit(1);
+
+  if (order.length > 0 && order[0].paymentStatus !== 'paid') {
+    await executor
+      .update(orders)
+      .set({ paymentStatus: 'failed', updatedAt: now })
+      .where(eq(orders.id, payment.orderId));
+  }
+
+  return updatedPayment;
+}
+
+// Cash handed to the rider settles a cash-on-delivery order once it covers
+// the amount due; a short collection leaves it pending for reconciliation
+export async function markCashCollected(executor: Executor, order: Order, amount: number) {
+  const paymentStatus = amount >= orderAmountDue(order) ? 'paid' : 'pending';
+
+  const [updated] = await executor
+    .update(orders)
+    .set({ paymentStatus, updatedAt: new Date().toISOString() })
+    .where(eq(orders.id, order.id))
+    .returning();
+
+  return updated;
+}
@@ -0,0 +1,90 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+
+// Prescription uploads: accepted file types, storage keys and the signed,
+// short-lived URLs used to fetch a file without a session (e.g. in an <img>
+// or a PDF viewer). A signed URL names the user it was issued to, and the
+// file route re-checks that user's access on every fetch.
+
+export const MAX_PRESCRIPTION_FILE_BYTES = 10 * 1024 * 1024;
+
+export const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+const FILE_ROUTE = '/api/prescriptions/file';
+
+interface FileType {
+  contentType: string;
+  extension: string;
+}
+
+// Identify a file from its leading bytes rather than trusting the name or
+// the client's content type
+export function detectPrescriptionFileType(bytes: Uint8Array): FileType | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+  if (startsWith([0xff, 0xd8, 0xff])) return { contentType: 'image/jpeg', extension: 'jpg' };
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return { contentType: 'image/png', extension: 'png' };
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+    return { contentType: 'image/webp', extension: 'webp' };
+  }
+  if (startsWith([0x25, 0x50, 0x44, 0x46, 0x2d])) return { contentType: 'application/pdf', extension: 'pdf' };
+  return null;
+}
+
+export function prescriptionFileKey(userId: number, extension: string): string {
+  return `prescriptions/${userId}/${randomUUID()}.${extension}`;
+}
+
+// Session-authenticated URL of a prescription's file; stored as its prescriptionUrl
+export function prescriptionFilePath(prescriptionId: number): string {
+  return `${FILE_ROUTE}?id=${prescriptionId}`;
+}
+
+function signingSecret(): string {
+  const secret = process.env.FILE_URL_SECRET || process.env.BETTER_AUTH_SECRET;
+  if (!secret) {
+    throw new Error('FILE_URL_SECRET (or BETTER_AUTH_SECRET) must be set to sign file URLs');
+  }
+  return secret;
+}
+
+function signature(prescriptionId: number, userId: number, expires: number): string {
+  return createHmac('sha256', signingSecret())
+    .update(`prescription-file:${prescriptionId}:${userId}:${expires}`)
+    .digest('base64url');
+}
+
+export function signPrescriptionFileUrl(
+  prescriptionId: number,
+  userId: number,
+  ttlSeconds: number = SIGNED_URL_TTL_SECONDS
+): { url: string; expiresAt: string } {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const params = new URLSearchParams({
+    id: String(prescriptionId),
+    uid: String(userId),
+    expires: String(expires),
+    signature: signature(prescriptionId, userId, expires),
+  });
+  return { url: `${FILE_ROUTE}?${params}`, expiresAt: new Date(expires * 1000).toISOString() };
+}
+
+// The user a signed URL was issued to, or null when the signature is
+// invalid or has expired
+export function verifyPrescriptionFileUrl(params: URLSearchParams): { prescriptionId: number; userId: number } | null {
+  const prescriptionId = parseInt(params.get('id') ?? '');
+  const userId = parseInt(params.get('uid') ?? '');
+  const expires = parseInt(params.get('expires') ?? '');
+  const given = params.get('signature') ?? '';
+
+  if (isNaN(prescriptionId) || isNaN(userId) || isNaN(expires) || expires < Date.now() / 1000) {
+    return null;
+  }
+
+  const expected = Buffer.from(signature(prescriptionId, userId, expires));
+  const received = Buffer.from(given);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+  return { prescriptionId, userId };
+}
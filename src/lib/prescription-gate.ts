@@ -0,0 +1,88 @@
+import { eq, and, ne, or, isNull } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { medicines, orderItems, orders, prescriptionItems, prescriptions } from '@/db/schema';
+import { hasValidRefill } from '@/lib/prescription-refills';
+
+// Prescription-only medicines are not fulfilled until the pharmacy that
+// dispenses them has verified a prescription for the order
+
+type Executor = Database | Transaction;
+type Order = typeof orders.$inferSelect;
+
+// Statuses an order cannot enter while its prescription is unverified
+export const PRESCRIPTION_GATED_STATUSES: readonly string[] = ['confirmed', 'preparing'];
+
+export interface PrescriptionGate {
+  required: boolean;
+  satisfied: boolean;
+  // Prescription-only medicines still to be dispensed
+  medicineIds: number[];
+}
+
+// Prescription-only medicines on the order's lines the pharmacy still supplies
+async function prescriptionMedicineIds(executor: Executor, orderId: number): Promise<number[]> {
+  const lines = await executor
+    .select({ medicineId: orderItems.medicineId })
+    .from(orderItems)
+    .innerJoin(medicines, eq(orderItems.medicineId, medicines.id))
+    .where(
+      and(
+        eq(orderItems.orderId, orderId),
+        eq(medicines.requiresPrescription, true),
+        or(isNull(orderItems.isAvailable), ne(orderItems.isAvailable, false))
+      )
+    );
+
+  return [...new Set(lines.map((line) => line.medicineId))];
+}
+
+// Recompute `orders.prescriptionRequired` from the order's lines
+export async function refreshPrescriptionRequired(executor: Executor, orderId: number): Promise<boolean> {
+  const required = (await prescriptionMedicineIds(executor, orderId)).length > 0;
+
+  await executor
+    .update(orders)
+    .set({ prescriptionRequired: required, updatedAt: new Date().toISOString() })
+    .where(
+      and(
+        eq(orders.id, orderId),
+        or(isNull(orders.prescriptionRequired), ne(orders.prescriptionRequired, required))
+      )
+    );
+
+  return required;
+}
+
+// The gate passes when the order needs no prescription, when a prescription
+// linked to it has been verified by the order's pharmacy and none of its
+// prescription lines is still awaiting review, or when it is a refill of an
+// earlier prescription that still covers it
+export async function checkPrescriptionGate(executor: Executor, order: Order): Promise<PrescriptionGate> {
+  const medicineIds = await prescriptionMedicineIds(executor, order.id);
+  if (medicineIds.length === 0) {
+    return { required: false, satisfied: true, medicineIds };
+  }
+
+  const verified = await executor
+    .select({ id: prescriptions.id })
+    .from(prescriptions)
+    .where(
+      and(
+        eq(prescriptions.orderId, order.id),
+        eq(prescriptions.status, 'verified'),
+        eq(prescriptions.verifiedBy, order.pharmacyId)
+      )
+    )
+    .limit(1);
+
+  const pendingLines = await executor
+    .select({ id: prescriptionItems.id })
+    .from(prescriptionItems)
+    .innerJoin(orderItems, eq(prescriptionItems.orderItemId, orderItems.id))
+    .where(and(eq(orderItems.orderId, order.id), eq(prescriptionItems.status, 'pending')))
+    .limit(1);
+
+  const satisfied = (verified.length > 0 && pendingLines.length === 0) || (await hasValidRefill(executor, order));
+
+  return { required: true, satisfied, medicineIds };
+}
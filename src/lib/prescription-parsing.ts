@@ -0,0 +1,312 @@
+import { eq, and, asc } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { medicines, prescriptionSuggestions, prescriptions } from '@/db/schema';
+import { editDistance } from '@/lib/medicine-search';
+import type { OcrLine } from '@/lib/ocr.types';
+import { normalizeIngredientName, parseSaltComposition, parseStrengthText } from '@/lib/salt-parser';
+
+// Turns the OCR text of a prescription into a suggested cart. Each line is
+// matched against the catalog by medicine name, brand and salt, tolerating
+// OCR misreads, and its dosage ("500mg 1-0-1 x 5 days") decides how many
+// packs to suggest. Nothing here is trusted: the pharmacist confirms or
+// dismisses every suggestion.
+
+type Executor = Database | Transaction;
+
+export const SUGGESTION_STATUSES = ['suggested', 'confirmed', 'dismissed'] as const;
+
+// Lines that score below this against every catalog name are left to the pharmacist
+export const MIN_MATCH_SCORE = 0.75;
+
+const MAX_ALTERNATIVES = 3;
+
+// Words on a prescription line that are not part of the medicine name
+const FORM_WORDS = new Set([
+  'tab', 'tabs', 'tablet', 'tablets', 'cap', 'caps', 'capsule', 'capsules', 'syp', 'syrup',
+  'inj', 'injection', 'susp', 'suspension', 'oint', 'ointment', 'cream', 'drops', 'rx',
+  'mg', 'mcg', 'ml', 'iu', 'once', 'twice', 'thrice', 'daily', 'day', 'days', 'week', 'weeks',
+  'month', 'months', 'for', 'after', 'before', 'food', 'meals', 'times', 'sos', 'prn',
+]);
+
+const FREQUENCY_CODES: Record<string, number> = {
+  od: 1, qd: 1, hs: 1, once: 1, daily: 1,
+  bd: 2, bid: 2, twice: 2,
+  tds: 3, tid: 3, thrice: 3,
+  qid: 4, qds: 4,
+};
+
+export interface Dosage {
+  strength: number | null;
+  unit: string | null;
+  // Doses a day, e.g. 2 for "BD" or "1-0-1"
+  perDay: number | null;
+  days: number | null;
+  // Tablets or capsules written out, e.g. "Qty 10" or "#10"
+  units: number | null;
+}
+
+export interface MedicineMatch {
+  medicineId: number;
+  name: string;
+  brand: string;
+  score: number;
+  // Whether the written strength agrees with the catalog; null if either has none
+  strengthMatches: boolean | null;
+}
+
+export interface ParsedPrescriptionLine {
+  text: string;
+  ocrConfidence: number;
+  dosage: Dosage;
+  match: MedicineMatch | null;
+  alternatives: MedicineMatch[];
+}
+
+export interface SuggestedCartItem {
+  medicineId: number;
+  name: string;
+  quantity: number;
+  confidence: number;
+  sourceText: string;
+}
+
+interface CatalogEntry {
+  id: number;
+  name: string;
+  brand: string;
+  // Name, brand and salts, each split into words
+  terms: string[][];
+  strength: { strength: number | null; unit: string | null } | null;
+  // Tablets or capsules in one pack, from units such as "20 tablets"
+  packSize: number | null;
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+export function parseDosage(text: string): Dosage {
+  const lower = text.toLowerCase();
+  const strength = parseStrengthText(text);
+
+  let perDay: number | null = null;
+  const pattern = lower.match(/\b(\d(?:\.\d)?)\s*-\s*(\d(?:\.\d)?)\s*-\s*(\d(?:\.\d)?)\b/);
+  const times = lower.match(/\b(\d+)\s*(?:times|x)\s*(?:a|per)?\s*day\b/);
+  if (pattern) {
+    perDay = parseFloat(pattern[1]) + parseFloat(pattern[2]) + parseFloat(pattern[3]);
+  } else if (times) {
+    perDay = parseInt(times[1]);
+  } else {
+    const code = lower.split(/[^a-z]+/).find((word) => FREQUENCY_CODES[word] !== undefined);
+    perDay = code ? FREQUENCY_CODES[code] : null;
+  }
+
+  let days: number | null = null;
+  const duration = lower.match(/\b(\d+)\s*(days?|d|weeks?|wks?|w|months?|mo)\b/);
+  if (duration) {
+    const unit = duration[2];
+    days = parseInt(duration[1]) * (unit.startsWith('w') ? 7 : unit.startsWith('m') ? 30 : 1);
+  }
+
+  const count = lower.match(/(?:\bqty|\bquantity|#|\bno\.?)\s*:?\s*(\d+)/) ??
+    lower.match(/\b(\d+)\s*(?:tabs?|tablets?|caps?|capsules?)\b/);
+
+  return {
+    strength: strength?.strength ?? null,
+    unit: strength?.unit ?? null,
+    perDay: perDay || null,
+    days,
+    units: count ? parseInt(count[1]) : null,
+  };
+}
+
+// 1 for the same word, down to 0 once a third of it would have to change
+function wordSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const length = Math.max(a.length, b.length);
+  const allowed = Math.floor(length / 3);
+  const distance = editDistance(a, b, allowed);
+  return distance > allowed ? 0 : 1 - distance / length;
+}
+
+// How well the line's words spell out a catalog term: the mean, over the
+// term's words, of the closest line word
+function termScore(lineWords: string[], term: string[]): number {
+  if (term.length === 0 || lineWords.length === 0) return 0;
+  const total = term.reduce(
+    (sum, termWord) => sum + Math.max(...lineWords.map((word) => wordSimilarity(word, termWord))),
+    0
+  );
+  return total / term.length;
+}
+
+function nameWords(text: string): string[] {
+  return normalizeIngredientName(text)
+    .split(' ')
+    .filter((word) => word.length >= 3 && /\p{L}/u.test(word) && !/\d/.test(word) && !FORM_WORDS.has(word));
+}
+
+async function loadCatalog(executor: Executor): Promise<CatalogEntry[]> {
+  const rows = await executor
+    .select({
+      id: medicines.id,
+      name: medicines.name,
+      brand: medicines.brand,
+      saltComposition: medicines.saltComposition,
+      unit: medicines.unit,
+    })
+    .from(medicines);
+
+  return rows.map((row) => {
+    const salts = parseSaltComposition(row.saltComposition);
+    const pack = row.unit.toLowerCase().match(/(\d+)\s*(?:tabs?|tablets?|caps?|capsules?)\b/);
+    const terms = [row.name, row.brand, ...salts.map((salt) => salt.name)]
+      .map((term) => normalizeIngredientName(term).split(' ').filter((word) => word !== ''))
+      .filter((term) => term.length > 0);
+
+    return {
+      id: row.id,
+      name: row.name,
+      brand: row.brand,
+      terms,
+      strength: salts.length === 1 && salts[0].strength !== null ? salts[0] : null,
+      packSize: pack ? parseInt(pack[1]) : null,
+    };
+  });
+}
+
+function matchLine(lineWords: string[], dosage: Dosage, catalog: CatalogEntry[]): MedicineMatch[] {
+  const matches: MedicineMatch[] = [];
+
+  for (const entry of catalog) {
+    let score = Math.max(...entry.terms.map((term) => termScore(lineWords, term)));
+    if (score < MIN_MATCH_SCORE) continue;
+
+    // The written strength tells apart products of the same medicine
+    let strengthMatches: boolean | null = null;
+    if (dosage.strength !== null && entry.strength && entry.strength.unit === dosage.unit) {
+      strengthMatches = entry.strength.strength === dosage.strength;
+      score = strengthMatches ? Math.min(score + 0.05, 1) : score * 0.85;
+    }
+
+    matches.push({ medicineId: entry.id, name: entry.name, brand: entry.brand, score: round2(score), strengthMatches });
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+// Packs needed for the course written on the line; one pack when it cannot be worked out
+function suggestedQuantity(dosage: Dosage, packSize: number | null): number {
+  const units = dosage.units ?? (dosage.perDay !== null && dosage.days !== null ? dosage.perDay * dosage.days : null);
+  if (units === null || packSize === null) return 1;
+  return Math.max(Math.ceil(units / packSize), 1);
+}
+
+export async function suggestCart(executor: Executor, ocrLines: OcrLine[]) {
+  const catalog = await loadCatalog(executor);
+  const lines: ParsedPrescriptionLine[] = [];
+  const cart = new Map<number, SuggestedCartItem>();
+
+  for (const ocrLine of ocrLines) {
+    const lineWords = nameWords(ocrLine.text);
+    if (lineWords.length === 0) continue;
+
+    const dosage = parseDosage(ocrLine.text);
+    const [match = null, ...others] = matchLine(lineWords, dosage, catalog);
+    lines.push({
+      text: ocrLine.text,
+      ocrConfidence: round2(ocrLine.confidence),
+      dosage,
+      match,
+      alternatives: others.slice(0, MAX_ALTERNATIVES),
+    });
+
+    if (!match) continue;
+
+    const entry = catalog.find((candidate) => candidate.id === match.medicineId)!;
+    const quantity = suggestedQuantity(dosage, entry.packSize);
+    const confidence = round2(ocrLine.confidence * match.score);
+    const existing = cart.get(match.medicineId);
+
+    // The same medicine written twice is one cart line
+    cart.set(match.medicineId, existing
+      ? {
+        ...existing,
+        quantity: existing.quantity + quantity,
+        confidence: Math.min(existing.confidence, confidence),
+        sourceText: `${existing.sourceText}\n${ocrLine.text}`,
+      }
+      : { medicineId: match.medicineId, name: match.name, quantity, confidence, sourceText: ocrLine.text });
+  }
+
+  return { lines, cart: [...cart.values()] };
+}
+
+// Replace the unreviewed suggestions of a prescription with a new reading;
+// medicines the pharmacist already confirmed or dismissed are not suggested again
+export async function saveSuggestions(
+  executor: Executor,
+  prescriptionId: number,
+  ocrText: string,
+  cart: SuggestedCartItem[]
+) {
+  const now = new Date().toISOString();
+
+  await executor
+    .delete(prescriptionSuggestions)
+    .where(and(eq(prescriptionSuggestions.prescriptionId, prescriptionId), eq(prescriptionSuggestions.status, 'suggested')));
+
+  const reviewed = await executor
+    .select({ medicineId: prescriptionSuggestions.medicineId })
+    .from(prescriptionSuggestions)
+    .where(eq(prescriptionSuggestions.prescriptionId, prescriptionId));
+  const fresh = cart.filter((item) => !reviewed.some((row) => row.medicineId === item.medicineId));
+
+  if (fresh.length > 0) {
+    await executor
+      .insert(prescriptionSuggestions)
+      .values(fresh.map((item) => ({
+        prescriptionId,
+        medicineId: item.medicineId,
+        quantity: item.quantity,
+        confidence: item.confidence,
+        sourceText: item.sourceText,
+        status: 'suggested',
+        createdAt: now,
+      })));
+  }
+
+  await executor
+    .update(prescriptions)
+    .set({ ocrText })
+    .where(eq(prescriptions.id, prescriptionId));
+}
+
+export async function prescriptionSuggestionList(executor: Executor, prescriptionId: number) {
+  return executor
+    .select({
+      id: prescriptionSuggestions.id,
+      medicineId: prescriptionSuggestions.medicineId,
+      medicineName: medicines.name,
+      quantity: prescriptionSuggestions.quantity,
+      confidence: prescriptionSuggestions.confidence,
+      sourceText: prescriptionSuggestions.sourceText,
+      status: prescriptionSuggestions.status,
+      reviewedBy: prescriptionSuggestions.reviewedBy,
+      reviewedAt: prescriptionSuggestions.reviewedAt,
+    })
+    .from(prescriptionSuggestions)
+    .innerJoin(medicines, eq(prescriptionSuggestions.medicineId, medicines.id))
+    .where(eq(prescriptionSuggestions.prescriptionId, prescriptionId))
+    .orderBy(asc(prescriptionSuggestions.id));
+}
+
+// The cart the pharmacist confirmed from the prescription, in the shape
+// /api/orders/place takes its items in
+export async function confirmedCart(executor: Executor, prescriptionId: number) {
+  return executor
+    .select({ medicineId: prescriptionSuggestions.medicineId, quantity: prescriptionSuggestions.quantity })
+    .from(prescriptionSuggestions)
+    .where(and(eq(prescriptionSuggestions.prescriptionId, prescriptionId), eq(prescriptionSuggestions.status, 'confirmed')))
+    .orderBy(asc(prescriptionSuggestions.id));
+}
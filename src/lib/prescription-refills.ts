@@ -0,0 +1,249 @@
+import { eq, and, gte, gt, inArray, isNull, isNotNull, ne, or, sql, desc } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { medicines, orderItems, orderPrescriptions, orders, prescriptionMedicines, prescriptions } from '@/db/schema';
+import { ApiError } from '@/lib/api-error';
+import { addDays, todayIso } from '@/lib/inventory-batches';
+
+// A verified prescription records the medicines it allows and how many
+// refills each has. Its first fill is the order it was uploaded for; later
+// orders reuse it through `order_prescriptions`, and each of those takes one
+// refill off every prescription medicine it dispenses.
+
+type Executor = Database | Transaction;
+type Order = typeof orders.$inferSelect;
+type Prescription = typeof prescriptions.$inferSelect;
+
+// Validity of a prescription the pharmacist did not give an expiry date
+export const DEFAULT_PRESCRIPTION_VALIDITY_DAYS = 180;
+
+export const MAX_REFILLS = 12;
+
+export interface PrescribedMedicine {
+  medicineId: number;
+  quantity: number;
+  refillsAllowed: number;
+}
+
+export function defaultPrescriptionExpiry(prescription: Pick<Prescription, 'issuedAt' | 'verifiedAt'>): string {
+  const from = prescription.issuedAt ?? todayIso(prescription.verifiedAt ? new Date(prescription.verifiedAt) : new Date());
+  return addDays(from, DEFAULT_PRESCRIPTION_VALIDITY_DAYS);
+}
+
+// Record a medicine the pharmacist approved on the prescription
+export async function recordPrescribedMedicine(executor: Executor, prescriptionId: number, medicine: PrescribedMedicine) {
+  const now = new Date().toISOString();
+
+  await executor
+    .insert(prescriptionMedicines)
+    .values({
+      prescriptionId,
+      medicineId: medicine.medicineId,
+      quantity: medicine.quantity,
+      refillsAllowed: medicine.refillsAllowed,
+      refillsRemaining: medicine.refillsAllowed,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [prescriptionMedicines.prescriptionId, prescriptionMedicines.medicineId],
+      set: {
+        quantity: sql`${prescriptionMedicines.quantity} + ${medicine.quantity}`,
+        refillsAllowed: medicine.refillsAllowed,
+        refillsRemaining: medicine.refillsAllowed,
+        updatedAt: now,
+      },
+    });
+}
+
+// Prescription-only lines of an order the pharmacy still supplies
+async function prescriptionLinesOf(executor: Executor, orderId: number) {
+  return executor
+    .select({ medicineId: orderItems.medicineId, quantity: orderItems.quantity })
+    .from(orderItems)
+    .innerJoin(medicines, eq(orderItems.medicineId, medicines.id))
+    .where(
+      and(
+        eq(orderItems.orderId, orderId),
+        eq(medicines.requiresPrescription, true),
+        or(isNull(orderItems.isAvailable), ne(orderItems.isAvailable, false))
+      )
+    );
+}
+
+// Why a prescription cannot be used as a refill for an order, or null if it can
+export async function refillProblem(
+  executor: Executor,
+  prescription: Prescription,
+  order: Order,
+  today: string = todayIso()
+): Promise<{ message: string; code: string; medicineIds?: number[] } | null> {
+  if (prescription.status !== 'verified') {
+    return { message: 'Only a verified prescription can be reused', code: 'PRESCRIPTION_NOT_VERIFIED' };
+  }
+
+  if (prescription.expiresAt !== null && prescription.expiresAt < today) {
+    return { message: 'Prescription has expired', code: 'PRESCRIPTION_EXPIRED' };
+  }
+
+  if (prescription.verifiedBy !== order.pharmacyId) {
+    return {
+      message: 'Prescription was verified by another pharmacy; upload it for this pharmacy to review',
+      code: 'PRESCRIPTION_OTHER_PHARMACY',
+    };
+  }
+
+  const lines = await prescriptionLinesOf(executor, order.id);
+  if (lines.length === 0) {
+    return { message: 'Order has no prescription medicines', code: 'NO_PRESCRIPTION_MEDICINES' };
+  }
+
+  const allowed = await executor
+    .select()
+    .from(prescriptionMedicines)
+    .where(eq(prescriptionMedicines.prescriptionId, prescription.id));
+
+  const uncovered = lines.filter((line) => {
+    const medicine = allowed.find((candidate) => candidate.medicineId === line.medicineId);
+    return !medicine || medicine.refillsRemaining <= 0 || line.quantity > medicine.quantity;
+  });
+
+  if (uncovered.length > 0) {
+    return {
+      message: 'Prescription does not cover these medicines in this quantity, or has no refills left',
+      code: 'NOT_COVERED_BY_PRESCRIPTION',
+      medicineIds: uncovered.map((line) => line.medicineId),
+    };
+  }
+
+  return null;
+}
+
+// True when a reused prescription attached to the order still covers it
+export async function hasValidRefill(executor: Executor, order: Order): Promise<boolean> {
+  const attached = await executor
+    .select({ prescription: prescriptions })
+    .from(orderPrescriptions)
+    .innerJoin(prescriptions, eq(orderPrescriptions.prescriptionId, prescriptions.id))
+    .where(eq(orderPrescriptions.orderId, order.id));
+
+  for (const { prescription } of attached) {
+    if ((await refillProblem(executor, prescription, order)) === null) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Take one refill off each prescription medicine the order dispenses. Runs
+// once per reused prescription; a refill used up by another order in the
+// meantime stops the order.
+export async function dispenseRefills(executor: Executor, orderId: number) {
+  const attached = await executor
+    .select()
+    .from(orderPrescriptions)
+    .where(and(eq(orderPrescriptions.orderId, orderId), isNull(orderPrescriptions.dispensedAt)));
+
+  if (attached.length === 0) return;
+
+  const medicineIds = (await prescriptionLinesOf(executor, orderId)).map((line) => line.medicineId);
+  const now = new Date().toISOString();
+
+  for (const link of attached) {
+    for (const medicineId of medicineIds) {
+      const decremented = await executor
+        .update(prescriptionMedicines)
+        .set({ refillsRemaining: sql`${prescriptionMedicines.refillsRemaining} - 1`, updatedAt: now })
+        .where(
+          and(
+            eq(prescriptionMedicines.prescriptionId, link.prescriptionId),
+            eq(prescriptionMedicines.medicineId, medicineId),
+            gt(prescriptionMedicines.refillsRemaining, 0)
+          )
+        )
+        .returning({ id: prescriptionMedicines.id });
+
+      if (decremented.length === 0) {
+        throw new ApiError('Prescription has no refills left for this medicine', 'NO_REFILLS_REMAINING', 409, {
+          prescriptionId: link.prescriptionId,
+          medicineId,
+        });
+      }
+    }
+
+    await executor
+      .update(orderPrescriptions)
+      .set({ dispensedAt: now })
+      .where(eq(orderPrescriptions.id, link.id));
+  }
+}
+
+// Give back the refills of an order that was cancelled after dispensing
+export async function restoreRefills(executor: Executor, orderId: number) {
+  const dispensed = await executor
+    .select()
+    .from(orderPrescriptions)
+    .where(and(eq(orderPrescriptions.orderId, orderId), isNotNull(orderPrescriptions.dispensedAt)));
+
+  if (dispensed.length === 0) return;
+
+  const medicineIds = (await prescriptionLinesOf(executor, orderId)).map((line) => line.medicineId);
+  const now = new Date().toISOString();
+
+  for (const link of dispensed) {
+    if (medicineIds.length > 0) {
+      await executor
+        .update(prescriptionMedicines)
+        .set({
+          refillsRemaining: sql`min(${prescriptionMedicines.refillsRemaining} + 1, ${prescriptionMedicines.refillsAllowed})`,
+          updatedAt: now,
+        })
+        .where(
+          and(
+            eq(prescriptionMedicines.prescriptionId, link.prescriptionId),
+            inArray(prescriptionMedicines.medicineId, medicineIds)
+          )
+        );
+    }
+
+    await executor
+      .update(orderPrescriptions)
+      .set({ dispensedAt: null })
+      .where(eq(orderPrescriptions.id, link.id));
+  }
+}
+
+// A customer's verified, unexpired prescriptions with refills left to reorder
+export async function activePrescriptions(executor: Executor, userId: number, today: string = todayIso()) {
+  const rows = await executor
+    .select({
+      prescription: prescriptions,
+      medicine: {
+        medicineId: prescriptionMedicines.medicineId,
+        medicineName: medicines.name,
+        quantity: prescriptionMedicines.quantity,
+        refillsAllowed: prescriptionMedicines.refillsAllowed,
+        refillsRemaining: prescriptionMedicines.refillsRemaining,
+      },
+    })
+    .from(prescriptions)
+    .innerJoin(prescriptionMedicines, eq(prescriptionMedicines.prescriptionId, prescriptions.id))
+    .innerJoin(medicines, eq(prescriptionMedicines.medicineId, medicines.id))
+    .where(
+      and(
+        eq(prescriptions.userId, userId),
+        eq(prescriptions.status, 'verified'),
+        or(isNull(prescriptions.expiresAt), gte(prescriptions.expiresAt, today)),
+        gt(prescriptionMedicines.refillsRemaining, 0)
+      )
+    )
+    .orderBy(desc(prescriptions.verifiedAt), prescriptionMedicines.medicineId);
+
+  const active = new Map<number, Prescription & { medicines: (typeof rows)[number]['medicine'][] }>();
+  for (const row of rows) {
+    const entry = active.get(row.prescription.id) ?? { ...row.prescription, medicines: [] };
+    entry.medicines.push(row.medicine);
+    active.set(row.prescription.id, entry);
+  }
+
+  return [...active.values()];
+}
@@ -0,0 +1,471 @@
+import { eq, and, asc, inArray, ne, or, isNull } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { medicines, orderItems, orderPrescriptions, orders, prescriptionItems, prescriptionSuggestions, prescriptions } from '@/db/schema';
+import { ApiError } from '@/lib/api-error';
+import { unreviewedSevereInteractions } from '@/lib/interactions';
+import { notifyUser } from '@/lib/notifications';
+import { canTransition, transitionOrderStatus } from '@/lib/order-status';
+import { refreshPrescriptionRequired } from '@/lib/prescription-gate';
+import { defaultPrescriptionExpiry, recordPrescribedMedicine, refillProblem } from '@/lib/prescription-refills';
+import { reservationShortfalls } from '@/lib/stock-reservations';
+
+// A pharmacist reviews a prescription line by line: each prescription-only
+// item of the order it is attached to is approved or rejected, or the whole
+// prescription is sent back to the customer for a clearer copy. Once every
+// line of the order is decided the order moves on without the pharmacist
+// touching it again.
+
+type Executor = Database | Transaction;
+type Order = typeof orders.$inferSelect;
+type OrderItem = typeof orderItems.$inferSelect;
+type Prescription = typeof prescriptions.$inferSelect;
+
+export const PRESCRIPTION_STATUSES = ['pending', 'verified', 'rejected', 'needs_resubmission'] as const;
+
+export const PRESCRIPTION_ITEM_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+export type PrescriptionStatus = typeof PRESCRIPTION_STATUSES[number];
+
+export interface LineDecision {
+  orderItemId: number;
+  status: 'approved' | 'rejected';
+  notes?: string | null;
+  // Fills allowed after this order, for approved lines
+  refillsAllowed?: number;
+}
+
+// What the pharmacist reads off the prescription itself
+export interface PrescriptionValidity {
+  issuedAt?: string | null;
+  expiresAt?: string | null;
+}
+
+// The pharmacist's call on a cart line suggested from the prescription's OCR
+// text, correcting the medicine or quantity if it was misread
+export interface SuggestionDecision {
+  id: number;
+  status: 'confirmed' | 'dismissed';
+  medicineId?: number;
+  quantity?: number;
+}
+
+export interface ReviewOutcome {
+  prescription: Prescription;
+  order: Order | null;
+  // Rejected lines newly marked unavailable on an order that goes ahead
+  rejectedItems: OrderItem[];
+  // Every line was rejected, so the order was cancelled
+  cancelled: boolean;
+}
+
+// The order's prescription-only lines as the pharmacist sees them
+export async function prescriptionLines(executor: Executor, prescriptionIds: number[]) {
+  if (prescriptionIds.length === 0) return [];
+
+  return executor
+    .select({
+      id: prescriptionItems.id,
+      prescriptionId: prescriptionItems.prescriptionId,
+      orderItemId: prescriptionItems.orderItemId,
+      medicineId: orderItems.medicineId,
+      medicineName: medicines.name,
+      quantity: orderItems.quantity,
+      status: prescriptionItems.status,
+      notes: prescriptionItems.notes,
+      reviewedBy: prescriptionItems.reviewedBy,
+      reviewedAt: prescriptionItems.reviewedAt,
+    })
+    .from(prescriptionItems)
+    .innerJoin(orderItems, eq(prescriptionItems.orderItemId, orderItems.id))
+    .innerJoin(medicines, eq(orderItems.medicineId, medicines.id))
+    .where(inArray(prescriptionItems.prescriptionId, prescriptionIds))
+    .orderBy(asc(prescriptionItems.orderItemId));
+}
+
+// Point the prescription-only lines of an order at a prescription. Lines
+// still awaiting review follow the newest prescription, so a resubmitted
+// copy takes over from the one that was sent back; decided lines keep their
+// decision. Passing a null order detaches the prescription.
+export async function linkPrescriptionToOrder(executor: Executor, prescriptionId: number, orderId: number | null) {
+  const now = new Date().toISOString();
+
+  await executor
+    .delete(prescriptionItems)
+    .where(and(eq(prescriptionItems.prescriptionId, prescriptionId), eq(prescriptionItems.status, 'pending')));
+
+  if (orderId === null) return;
+
+  const lines = await executor
+    .select({ id: orderItems.id })
+    .from(orderItems)
+    .innerJoin(medicines, eq(orderItems.medicineId, medicines.id))
+    .where(and(eq(orderItems.orderId, orderId), eq(medicines.requiresPrescription, true)));
+
+  if (lines.length === 0) return;
+
+  const orderItemIds = lines.map((line) => line.id);
+
+  await executor
+    .update(prescriptionItems)
+    .set({ prescriptionId, updatedAt: now })
+    .where(and(inArray(prescriptionItems.orderItemId, orderItemIds), eq(prescriptionItems.status, 'pending')));
+
+  await executor
+    .insert(prescriptionItems)
+    .values(orderItemIds.map((orderItemId) => ({
+      prescriptionId,
+      orderItemId,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    })))
+    .onConflictDoNothing();
+}
+
+function assertReviewable(prescription: Prescription) {
+  if (prescription.status !== 'pending') {
+    throw new ApiError(
+      `Prescription is ${prescription.status.replace('_', ' ')} and cannot be reviewed`,
+      'PRESCRIPTION_NOT_PENDING',
+      409,
+      { status: prescription.status }
+    );
+  }
+}
+
+// Record the pharmacist's decision on some or all of a prescription's lines.
+// Approved lines become the medicines the prescription allows on refills.
+export async function reviewPrescriptionLines(
+  executor: Executor,
+  prescription: Prescription,
+  decisions: LineDecision[],
+  reviewerId: number,
+  validity: PrescriptionValidity = {}
+): Promise<ReviewOutcome> {
+  assertReviewable(prescription);
+
+  const lines = await executor
+    .select({
+      id: prescriptionItems.id,
+      orderItemId: prescriptionItems.orderItemId,
+      medicineId: orderItems.medicineId,
+      quantity: orderItems.quantity,
+    })
+    .from(prescriptionItems)
+    .innerJoin(orderItems, eq(prescriptionItems.orderItemId, orderItems.id))
+    .where(eq(prescriptionItems.prescriptionId, prescription.id));
+
+  if (lines.length === 0) {
+    throw new ApiError(
+      'Prescription has no prescription-only order lines to review',
+      'NO_PRESCRIPTION_LINES',
+      409
+    );
+  }
+
+  const now = new Date().toISOString();
+  for (const decision of decisions) {
+    const line = lines.find((candidate) => candidate.orderItemId === decision.orderItemId);
+    if (!line) {
+      throw new ApiError('Order item is not covered by this prescription', 'UNKNOWN_PRESCRIPTION_LINE', 400, {
+        orderItemId: decision.orderItemId,
+      });
+    }
+
+    const updated = await executor
+      .update(prescriptionItems)
+      .set({
+        status: decision.status,
+        notes: decision.notes ?? null,
+        reviewedBy: reviewerId,
+        reviewedAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(prescriptionItems.id, line.id), eq(prescriptionItems.status, 'pending')))
+      .returning();
+
+    if (updated.length === 0) {
+      throw new ApiError('Order item has already been reviewed', 'LINE_ALREADY_REVIEWED', 409, {
+        orderItemId: decision.orderItemId,
+      });
+    }
+
+    if (decision.status === 'approved') {
+      await recordPrescribedMedicine(executor, prescription.id, {
+        medicineId: line.medicineId,
+        quantity: line.quantity,
+        refillsAllowed: decision.refillsAllowed ?? 0,
+      });
+    }
+  }
+
+  if (validity.issuedAt !== undefined || validity.expiresAt !== undefined) {
+    [prescription] = await executor
+      .update(prescriptions)
+      .set({
+        ...(validity.issuedAt !== undefined ? { issuedAt: validity.issuedAt } : {}),
+        ...(validity.expiresAt !== undefined ? { expiresAt: validity.expiresAt } : {}),
+      })
+      .where(eq(prescriptions.id, prescription.id))
+      .returning();
+  }
+
+  return settlePrescription(executor, prescription, reviewerId);
+}
+
+// Confirm or dismiss the cart lines suggested from the prescription's text.
+// Confirmed lines are what an order placed with the prescription is made of.
+export async function reviewSuggestions(
+  executor: Executor,
+  prescription: Prescription,
+  decisions: SuggestionDecision[],
+  reviewerId: number
+) {
+  assertReviewable(prescription);
+
+  const now = new Date().toISOString();
+  for (const decision of decisions) {
+    if (decision.medicineId !== undefined) {
+      const [medicine] = await executor
+        .select({ id: medicines.id })
+        .from(medicines)
+        .where(eq(medicines.id, decision.medicineId));
+      if (!medicine) {
+        throw new ApiError('Medicine not found', 'MEDICINE_NOT_FOUND', 404, { medicineId: decision.medicineId });
+      }
+
+      // A prescription suggests each medicine once
+      const [duplicate] = await executor
+        .select({ id: prescriptionSuggestions.id })
+        .from(prescriptionSuggestions)
+        .where(
+          and(
+            eq(prescriptionSuggestions.prescriptionId, prescription.id),
+            eq(prescriptionSuggestions.medicineId, decision.medicineId),
+            ne(prescriptionSuggestions.id, decision.id)
+          )
+        )
+        .limit(1);
+      if (duplicate) {
+        throw new ApiError('The prescription already has a suggestion for this medicine', 'SUGGESTION_MEDICINE_EXISTS', 409, {
+          suggestionId: decision.id,
+          medicineId: decision.medicineId,
+          existingSuggestionId: duplicate.id,
+        });
+      }
+    }
+
+    const updated = await executor
+      .update(prescriptionSuggestions)
+      .set({
+        status: decision.status,
+        ...(decision.medicineId !== undefined ? { medicineId: decision.medicineId } : {}),
+        ...(decision.quantity !== undefined ? { quantity: decision.quantity } : {}),
+        reviewedBy: reviewerId,
+        reviewedAt: now,
+      })
+      .where(
+        and(
+          eq(prescriptionSuggestions.id, decision.id),
+          eq(prescriptionSuggestions.prescriptionId, prescription.id),
+          eq(prescriptionSuggestions.status, 'suggested')
+        )
+      )
+      .returning();
+
+    if (updated.length === 0) {
+      throw new ApiError('Suggestion not found or already reviewed', 'UNKNOWN_SUGGESTION', 409, {
+        suggestionId: decision.id,
+      });
+    }
+  }
+}
+
+// Send the prescription back to the customer, e.g. because it is illegible
+export async function requestResubmission(
+  executor: Executor,
+  prescription: Prescription,
+  reason: string
+): Promise<Prescription> {
+  assertReviewable(prescription);
+
+  const [updated] = await executor
+    .update(prescriptions)
+    .set({ status: 'needs_resubmission', isVerified: false, verificationNotes: reason })
+    .where(and(eq(prescriptions.id, prescription.id), eq(prescriptions.status, 'pending')))
+    .returning();
+
+  if (!updated) {
+    throw new ApiError('Prescription was reviewed by another request', 'PRESCRIPTION_CONFLICT', 409);
+  }
+
+  await notifyUser(executor, prescription.userId, {
+    type: 'prescription_needs_resubmission',
+    title: 'Please upload your prescription again',
+    message: `Your pharmacist could not verify your prescription: ${reason}`,
+    data: { prescriptionId: prescription.id, orderId: prescription.orderId },
+  });
+
+  return updated;
+}
+
+// Close the prescription once none of its lines is pending, then the order
+// once none of its lines is
+async function settlePrescription(executor: Executor, prescription: Prescription, reviewerId: number): Promise<ReviewOutcome> {
+  const lines = await executor
+    .select({ status: prescriptionItems.status })
+    .from(prescriptionItems)
+    .where(eq(prescriptionItems.prescriptionId, prescription.id));
+
+  const unresolved = { prescription, order: null, rejectedItems: [], cancelled: false };
+
+  if (lines.some((line) => line.status === 'pending')) {
+    return unresolved;
+  }
+
+  const approved = lines.filter((line) => line.status === 'approved').length;
+  const rejected = lines.length - approved;
+
+  let order: Order | null = null;
+  if (prescription.orderId !== null) {
+    [order] = await executor.select().from(orders).where(eq(orders.id, prescription.orderId));
+  }
+
+  const now = new Date().toISOString();
+  const [closed] = await executor
+    .update(prescriptions)
+    .set({
+      status: approved > 0 ? 'verified' : 'rejected',
+      isVerified: approved > 0,
+      verifiedBy: order?.pharmacyId ?? prescription.verifiedBy,
+      verifiedAt: now,
+      expiresAt: prescription.expiresAt ?? defaultPrescriptionExpiry({ issuedAt: prescription.issuedAt, verifiedAt: now }),
+    })
+    .where(eq(prescriptions.id, prescription.id))
+    .returning();
+
+  await notifyUser(executor, prescription.userId, {
+    type: 'prescription_reviewed',
+    title: approved > 0 ? 'Your prescription has been verified' : 'Your prescription was not accepted',
+    message: rejected === 0
+      ? 'Your pharmacist approved every medicine on your prescription.'
+      : `Your pharmacist approved ${approved} and declined ${rejected} of the medicines on your prescription.`,
+    data: { prescriptionId: prescription.id, orderId: prescription.orderId, approved, rejected },
+  });
+
+  if (!order) {
+    return { ...unresolved, prescription: closed };
+  }
+
+  return { ...(await settleOrder(executor, order, reviewerId)), prescription: closed };
+}
+
+// Cash orders, and paid orders holding all the stock they paid for; a paid
+// order short of stock, and one with severe interactions still to be
+// overridden, waits for the pharmacy
+async function readyToConfirm(executor: Executor, order: Order): Promise<boolean> {
+  if ((await unreviewedSevereInteractions(executor, order.id)).length > 0) return false;
+  if (order.paymentMethod === 'cod') return true;
+  return order.paymentStatus === 'paid' && (await reservationShortfalls(executor, order.id)).length === 0;
+}
+
+// With every prescription line of the order decided, rejected lines become
+// unavailable and the order is confirmed, or cancelled if nothing is left
+async function settleOrder(executor: Executor, order: Order, reviewerId: number) {
+  const lines = await executor
+    .select({ orderItemId: prescriptionItems.orderItemId, status: prescriptionItems.status })
+    .from(prescriptionItems)
+    .innerJoin(orderItems, eq(prescriptionItems.orderItemId, orderItems.id))
+    .where(eq(orderItems.orderId, order.id));
+
+  if (lines.some((line) => line.status === 'pending')) {
+    return { order, rejectedItems: [], cancelled: false };
+  }
+
+  const rejectedIds = lines.filter((line) => line.status === 'rejected').map((line) => line.orderItemId);
+  const rejectedItems = rejectedIds.length === 0 ? [] : await executor
+    .update(orderItems)
+    .set({ isAvailable: false })
+    .where(and(inArray(orderItems.id, rejectedIds), or(isNull(orderItems.isAvailable), ne(orderItems.isAvailable, false))))
+    .returning();
+  await refreshPrescriptionRequired(executor, order.id);
+
+  const remaining = await executor
+    .select({ id: orderItems.id })
+    .from(orderItems)
+    .where(and(eq(orderItems.orderId, order.id), or(isNull(orderItems.isAvailable), ne(orderItems.isAvailable, false))));
+
+  if (remaining.length === 0) {
+    if (!canTransition(order.status, 'cancelled')) {
+      return { order, rejectedItems, cancelled: false };
+    }
+    const cancelled = await transitionOrderStatus(executor, order, 'cancelled', {
+      changedBy: reviewerId,
+      note: 'Every prescription line was rejected',
+    });
+    return { order: cancelled, rejectedItems: [], cancelled: true };
+  }
+
+  let [updated] = await executor
+    .update(orders)
+    .set({ prescriptionVerified: true, updatedAt: new Date().toISOString() })
+    .where(eq(orders.id, order.id))
+    .returning();
+
+  // Unpaid online orders are confirmed by their payment instead
+  if (updated.status === 'pending' && (await readyToConfirm(executor, updated))) {
+    updated = await transitionOrderStatus(executor, updated, 'confirmed', {
+      changedBy: reviewerId,
+      note: 'Prescription verified',
+    });
+  }
+
+  return { order: updated, rejectedItems, cancelled: false };
+}
+
+// Reuse an earlier verified prescription for a new order instead of
+// uploading it again. The order goes ahead as if its prescription had just
+// been reviewed; the refill is taken when the order is prepared.
+export async function attachPrescriptionRefill(
+  executor: Executor,
+  prescription: Prescription,
+  order: Order,
+  attachedBy: number
+): Promise<Order> {
+  if (order.status !== 'pending') {
+    throw new ApiError('A prescription can only be attached to a pending order', 'ORDER_NOT_PENDING', 409, {
+      status: order.status,
+    });
+  }
+
+  const problem = await refillProblem(executor, prescription, order);
+  if (problem) {
+    const { message, code, ...details } = problem;
+    throw new ApiError(message, code, 409, details);
+  }
+
+  const attached = await executor
+    .insert(orderPrescriptions)
+    .values({ orderId: order.id, prescriptionId: prescription.id, createdAt: new Date().toISOString() })
+    .onConflictDoNothing()
+    .returning();
+
+  if (attached.length === 0) {
+    throw new ApiError('Prescription is already attached to this order', 'ALREADY_ATTACHED', 409);
+  }
+
+  let [updated] = await executor
+    .update(orders)
+    .set({ prescriptionVerified: true, updatedAt: new Date().toISOString() })
+    .where(eq(orders.id, order.id))
+    .returning();
+
+  if (await readyToConfirm(executor, updated)) {
+    updated = await transitionOrderStatus(executor, updated, 'confirmed', {
+      changedBy: attachedBy,
+      note: `Refill of prescription ${prescription.id}`,
+    });
+  }
+
+  return updated;
+}
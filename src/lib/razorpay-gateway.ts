@@ -0,0 +1,109 @@
+import { createHmac } from 'crypto';
+import { ApiError } from '@/lib/api-error';
+import { getRazorpayInstance } from '@/lib/razorpay-instance';
+import type {
+  GatewayOrder,
+  GatewayPayment,
+  GatewayRefund,
+  PaymentGateway,
+} from '@/lib/payment-gateway.types';
+import type {
+  RazorpayOrder,
+  RazorpayPayment,
+  RazorpayRefund,
+  RazorpayWebhookPayload,
+} from '@/lib/razorpay.types';
+
+function toGatewayOrder(order: RazorpayOrder): GatewayOrder {
+  return {
+    id: order.id,
+    amount: Number(order.amount),
+    currency: order.currency,
+    status: order.status,
+    receipt: order.receipt ?? null,
+    notes: order.notes ?? {},
+  };
+}
+
+function toGatewayPayment(payment: RazorpayPayment): GatewayPayment {
+  return {
+    id: payment.id,
+    orderId: payment.order_id,
+    amount: Number(payment.amount),
+    currency: payment.currency,
+    status: payment.status,
+    method: payment.method ?? null,
+    errorReason: payment.error_description ?? null,
+    notes: payment.notes ?? {},
+  };
+}
+
+function toGatewayRefund(refund: RazorpayRefund): GatewayRefund {
+  return {
+    id: refund.id,
+    paymentId: refund.payment_id,
+    amount: Number(refund.amount),
+    currency: refund.currency,
+    status: refund.status,
+    notes: refund.notes ?? {},
+  };
+}
+
+function sign(secret: string, data: string) {
+  return createHmac('sha256', secret).update(data).digest('hex');
+}
+
+export function createRazorpayGateway(): PaymentGateway {
+  return {
+    name: 'razorpay',
+
+    async createOrder({ amount, currency, receipt, notes }) {
+      const order = await getRazorpayInstance().orders.create({ amount, currency, receipt, notes });
+      return toGatewayOrder(order as unknown as RazorpayOrder);
+    },
+
+    async fetchPayment(providerPaymentId) {
+      const payment = await getRazorpayInstance().payments.fetch(providerPaymentId);
+      return toGatewayPayment(payment as unknown as RazorpayPayment);
+    },
+
+    async refund(providerPaymentId, { amount, notes }) {
+      const refund = await getRazorpayInstance().payments.refund(providerPaymentId, { amount, notes });
+      return toGatewayRefund(refund as unknown as RazorpayRefund);
+    },
+
+    verifySignature({ providerOrderId, providerPaymentId, signature }) {
+      const expected = sign(process.env.RAZORPAY_KEY_SECRET!, `${providerOrderId}|${providerPaymentId}`);
+      return expected === signature;
+    },
+
+    parseWebhook(body, headers) {
+      const signature = headers.get('x-razorpay-signature');
+      if (!signature) {
+        throw new ApiError('Missing signature header', 'MISSING_SIGNATURE', 400);
+      }
+
+      const secret = process.env.RAZORPAY_WEBHOOK_SECRET || '';
+      if (!secret) {
+        console.warn('RAZORPAY_WEBHOOK_SECRET not configured');
+      }
+
+      if (!secret || sign(secret, body) !== signature) {
+        throw new ApiError('Invalid webhook signature', 'INVALID_SIGNATURE', 401);
+      }
+
+      const payload: RazorpayWebhookPayload = JSON.parse(body);
+      const order = payload.payload.order?.entity;
+      const payment = payload.payload.payment?.entity;
+      const refund = payload.payload.refund?.entity;
+
+      return {
+        eventId: headers.get('x-razorpay-event-id'),
+        event: payload.event,
+        order: order ? toGatewayOrder(order) : undefined,
+        payment: payment ? toGatewayPayment(payment) : undefined,
+        refund: refund ? toGatewayRefund(refund) : undefined,
+      };
+    },
+  };
+}
@@ -53,10 +53,30 @@ export interface RazorpayPayment {
   created_at: number;
 }
 
+export interface RazorpayRefund {
+  id: string;
+  entity: string;
+  amount: number;
+  currency: string;
+  payment_id: string;
+  notes: Record<string, unknown>;
+  receipt: string | null;
+  status: 'pending' | 'processed' | 'failed';
+  speed_processed: string;
+  speed_requested: string;
+  created_at: number;
+}
+
 export interface RazorpayWebhookPayload {
   entity: string;
   account_id: string;
-  event: 'payment.authorized' | 'payment.failed' | 'payment.captured' | 'order.paid';
+  event:
+    | 'payment.authorized'
+    | 'payment.failed'
+    | 'payment.captured'
+    | 'order.paid'
+    | 'refund.processed'
+    | 'refund.failed';
   contains: string[];
   payload: {
     payment?: {
@@ -65,6 +85,9 @@ export interface RazorpayWebhookPayload {
     order?: {
       entity: RazorpayOrder;
     };
+    refund?: {
+      entity: RazorpayRefund;
+    };
   };
   created_at: number;
 }
@@ -76,10 +99,7 @@ export interface CheckoutResponse {
 }
 
 export interface OrderCreationRequest {
-  amount: number;
-  currency?: string;
-  receipt?: string;
-  notes?: Record<string, unknown>;
+  orderId: number;
 }
 
 export interface PaymentVerificationRequest {
@@ -87,3 +107,9 @@ export interface PaymentVerificationRequest {
   razorpay_payment_id: string;
   razorpay_signature: string;
 }
+
+export interface RefundRequest {
+  orderId: number;
+  orderItemIds?: number[];
+  reason?: string;
+}
@@ -0,0 +1,269 @@
+import { eq, and, ne, desc, inArray, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import type { Database, Transaction } from '@/db';
+import { orders, orderItems, payments, refunds } from '@/db/schema';
+import { ApiError } from '@/lib/api-error';
+import { roundCurrency } from '@/lib/orders';
+import { getPaymentGateway } from '@/lib/payment-gateway';
+
+export const REFUND_STATUSES = ['pending', 'processed', 'failed'] as const;
+
+type Executor = Database | Transaction;
+type Order = typeof orders.$inferSelect;
+type OrderItem = typeof orderItems.$inferSelect;
+type Payment = typeof payments.$inferSelect;
+type Refund = typeof refunds.$inferSelect;
+
+export async function findCapturedPayment(executor: Executor, orderId: number): Promise<Payment | null> {
+  const result = await executor
+    .select()
+    .from(payments)
+    .where(and(eq(payments.orderId, orderId), eq(payments.status, 'captured')))
+    .orderBy(desc(payments.id))
+    .limit(1);
+
+  return result[0] ?? null;
+}
+
+// Amount already refunded or on its way back to the customer
+async function committedRefundAmount(executor: Executor, paymentId: number): Promise<number> {
+  const [{ total }] = await executor
+    .select({ total: sql<number>`coalesce(sum(${refunds.amount}), 0)` })
+    .from(refunds)
+    .where(and(eq(refunds.paymentId, paymentId), ne(refunds.status, 'failed')));
+
+  return roundCurrency(total);
+}
+
+async function syncOrderPaymentStatus(executor: Executor, payment: Payment) {
+  const paymentStatus = payment.amountRefunded >= payment.amount - 0.005
+    ? 'refunded'
+    : payment.amountRefunded > 0 ? 'partially_refunded' : 'paid';
+
+  await executor
+    .update(orders)
+    .set({ paymentStatus, updatedAt: new Date().toISOString() })
+    .where(eq(orders.id, payment.orderId));
+}
+
+async function applyProcessedRefund(executor: Executor, refund: Refund) {
+  const [payment] = await executor
+    .update(payments)
+    .set({
+      amountRefunded: sql`${payments.amountRefunded} + ${refund.amount}`,
+      updatedAt: new Date().toISOString(),
+    })
+    .where(eq(payments.id, refund.paymentId))
+    .returning();
+
+  await syncOrderPaymentStatus(executor, payment);
+}
+
+// Refunds move money outside the database, so each one is first recorded as
+// `pending` and committed, then sent to the gateway and updated with the
+// outcome. A crash in between leaves a pending row without a provider id to
+// reconcile, never money that left with no record of it.
+
+async function reserveRefund(
+  executor: Executor,
+  payment: Payment,
+  amount: number,
+  { orderItemId = null, reason = null }: { orderItemId?: number | null; reason?: string | null }
+): Promise<Refund> {
+  const refundable = roundCurrency(payment.amount - await committedRefundAmount(executor, payment.id));
+  const refundAmount = roundCurrency(Math.min(amount, refundable));
+
+  if (refundAmount <= 0) {
+    throw new ApiError('Nothing left to refund for this order', 'NOTHING_TO_REFUND', 409);
+  }
+
+  const now = new Date().toISOString();
+  const [refund] = await executor
+    .insert(refunds)
+    .values({
+      paymentId: payment.id,
+      orderId: payment.orderId,
+      orderItemId,
+      amount: refundAmount,
+      status: 'pending',
+      reason,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  return refund;
+}
+
+// Ask the gateway for a reserved refund and record what it said; a refused
+// refund is marked failed so it can be asked for again
+async function submitRefund(payment: Payment, refund: Refund): Promise<Refund> {
+  let gatewayRefund;
+  try {
+    gatewayRefund = await getPaymentGateway(payment.provider).refund(payment.providerPaymentId!, {
+      amount: Math.round(refund.amount * 100), // paise
+      notes: {
+        orderId: String(payment.orderId),
+        refundId: String(refund.id),
+        ...(refund.orderItemId ? { orderItemId: String(refund.orderItemId) } : {}),
+      },
+    });
+  } catch (error) {
+    console.error('Gateway refund failed for refund', refund.id, error);
+    const [failed] = await db
+      .update(refunds)
+      .set({ status: 'failed', updatedAt: new Date().toISOString() })
+      .where(eq(refunds.id, refund.id))
+      .returning();
+    return failed;
+  }
+
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(refunds)
+      .set({
+        providerRefundId: gatewayRefund.id,
+        status: gatewayRefund.status,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(refunds.id, refund.id))
+      .returning();
+
+    if (updated.status === 'processed') {
+      await applyProcessedRefund(tx, updated);
+    }
+
+    return updated;
+  });
+}
+
+// Send every reserved refund, then report the ones the gateway refused
+async function submitRefunds(payment: Payment, reserved: Refund[]): Promise<Refund[]> {
+  const submitted: Refund[] = [];
+  for (const refund of reserved) {
+    submitted.push(await submitRefund(payment, refund));
+  }
+
+  const failed = submitted.filter((refund) => refund.status === 'failed');
+  if (failed.length > 0) {
+    throw new ApiError(
+      `${failed.length} of ${submitted.length} refunds were refused by the payment gateway`,
+      'REFUND_FAILED',
+      502,
+      { refunds: submitted }
+    );
+  }
+
+  return submitted;
+}
+
+async function requireCapturedPayment(executor: Executor, order: Order): Promise<Payment> {
+  const payment = await findCapturedPayment(executor, order.id);
+  if (!payment || !payment.providerPaymentId) {
+    throw new ApiError('Order has no captured payment to refund', 'PAYMENT_NOT_CAPTURED', 409);
+  }
+  return payment;
+}
+
+// Refund everything that has not been refunded yet
+export async function refundOrder(order: Order, reason?: string | null): Promise<Refund> {
+  const { payment, refund } = await db.transaction(async (tx) => {
+    const payment = await requireCapturedPayment(tx, order);
+    return { payment, refund: await reserveRefund(tx, payment, payment.amount, { reason }) };
+  });
+
+  const [submitted] = await submitRefunds(payment, [refund]);
+  return submitted;
+}
+
+// Refund individual lines at their charged subtotal, one gateway refund per
+// line. Every line is checked before any money moves.
+export async function refundOrderItems(order: Order, items: OrderItem[], reason?: string | null): Promise<Refund[]> {
+  const mismatched = items.find((item) => item.orderId !== order.id);
+  if (mismatched) {
+    throw new ApiError('Order item does not belong to this order', 'ORDER_ITEM_MISMATCH', 400, {
+      orderItemId: mismatched.id,
+    });
+  }
+
+  const { payment, reserved } = await db.transaction(async (tx) => {
+    const payment = await requireCapturedPayment(tx, order);
+
+    if (items.length > 0) {
+      const existing = await tx
+        .select({ orderItemId: refunds.orderItemId })
+        .from(refunds)
+        .where(and(inArray(refunds.orderItemId, items.map((item) => item.id)), ne(refunds.status, 'failed')))
+        .limit(1);
+
+      if (existing.length > 0) {
+        throw new ApiError('Order item has already been refunded', 'ITEM_ALREADY_REFUNDED', 409, {
+          orderItemId: existing[0].orderItemId,
+        });
+      }
+    }
+
+    const reserved: Refund[] = [];
+    for (const item of items) {
+      reserved.push(await reserveRefund(tx, payment, item.subtotal, { orderItemId: item.id, reason }));
+    }
+    return { payment, reserved };
+  });
+
+  return submitRefunds(payment, reserved);
+}
+
+// A capture that lands after its order was cancelled is paid back in full.
+// The refund is reserved in the capture's transaction and sent once that
+// commits, with submitCaptureRefund.
+export async function reserveCaptureRefund(executor: Executor, payment: Payment, reason: string): Promise<Refund> {
+  return reserveRefund(executor, payment, payment.amount, { reason });
+}
+
+// A refused refund stays failed and can be asked for again from the refund route
+export async function submitCaptureRefund(refund: Refund): Promise<Refund> {
+  const [payment] = await db.select().from(payments).where(eq(payments.id, refund.paymentId)).limit(1);
+  return submitRefund(payment, refund);
+}
+
+// Refund webhook outcomes; repeated notifications leave the refund unchanged
+export async function markRefundProcessed(executor: Executor, providerRefundId: string) {
+  const refund = await executor
+    .select()
+    .from(refunds)
+    .where(eq(refunds.providerRefundId, providerRefundId))
+    .limit(1);
+
+  if (refund.length === 0) {
+    console.warn('Processed refund not found:', providerRefundId);
+    return null;
+  }
+
+  if (refund[0].status === 'processed') {
+    return refund[0];
+  }
+
+  const [updated] = await executor
+    .update(refunds)
+    .set({ status: 'processed', updatedAt: new Date().toISOString() })
+    .where(eq(refunds.id, refund[0].id))
+    .returning();
+
+  await applyProcessedRefund(executor, updated);
+  return updated;
+}
+
+export async function markRefundFailed(executor: Executor, providerRefundId: string) {
+  const [updated] = await executor
+    .update(refunds)
+    .set({ status: 'failed', updatedAt: new Date().toISOString() })
+    .where(and(eq(refunds.providerRefundId, providerRefundId), eq(refunds.status, 'pending')))
+    .returning();
+
+  if (!updated) {
+    console.warn('Failed refund not found or already settled:', providerRefundId);
+    return null;
+  }
+
+  return updated;
+}
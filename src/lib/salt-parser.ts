@@ -0,0 +1,114 @@
+// Parser for the free-text `saltComposition` of a medicine. Turns strings like
+// "Paracetamol 500mg", "Paracetamol (500 mg)" or "Amoxicillin 500mg +
+// Clavulanic Acid 125mg" into one entry per active ingredient, with the
+// strength converted to a canonical unit so equal doses compare equal.
+
+export interface ParsedIngredient {
+  // Display name, e.g. "Clavulanic Acid"
+  name: string;
+  // Lower-cased, single-spaced name used to match ingredients across medicines
+  normalizedName: string;
+  // Strength in `unit`; null when the composition gives none
+  strength: number | null;
+  unit: string | null;
+}
+
+// Mass units are converted to mg and volumes to ml
+const UNIT_FACTORS: Record<string, { unit: string; factor: number }> = {
+  g: { unit: 'mg', factor: 1000 },
+  gm: { unit: 'mg', factor: 1000 },
+  mg: { unit: 'mg', factor: 1 },
+  mcg: { unit: 'mg', factor: 0.001 },
+  'µg': { unit: 'mg', factor: 0.001 },
+  ug: { unit: 'mg', factor: 0.001 },
+  l: { unit: 'ml', factor: 1000 },
+  ml: { unit: 'ml', factor: 1 },
+  iu: { unit: 'IU', factor: 1 },
+  '%': { unit: '%', factor: 1 },
+};
+
+const UNIT_PATTERN = 'mcg|µg|ug|mg|gm|g|ml|l|iu|%';
+
+// "500mg", "500 mg", "(500 mg)", "250mg/5ml", "0.05%"
+const STRENGTH_PATTERN = new RegExp(
+  `\\(?\\s*(\\d+(?:\\.\\d+)?)\\s*(${UNIT_PATTERN})(?:\\s*/\\s*(\\d+(?:\\.\\d+)?)?\\s*(ml|l|g))?\\s*\\)?(?![a-z])`,
+  'i'
+);
+
+// Rounded so converted strengths (e.g. 0.5g and 500mg) compare equal
+function roundStrength(value: number) {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function titleCase(text: string) {
+  return text.replace(/\p{L}[\p{L}'-]*/gu, (word) =>
+    word === word.toUpperCase() && word.length <= 4
+      ? word // keep abbreviations such as EPA or DHA
+      : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+  );
+}
+
+export function normalizeIngredientName(name: string) {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function parseStrength(match: RegExpMatchArray): Pick<ParsedIngredient, 'strength' | 'unit'> {
+  const amount = parseFloat(match[1]);
+  const unit = UNIT_FACTORS[match[2].toLowerCase()];
+
+  // Concentrations such as 250mg/5ml are expressed per single ml or g
+  if (match[4]) {
+    const per = UNIT_FACTORS[match[4].toLowerCase()];
+    const perAmount = match[3] ? parseFloat(match[3]) : 1;
+    return {
+      strength: roundStrength((amount * unit.factor) / (perAmount * per.factor)),
+      unit: `${unit.unit}/${per.unit}`,
+    };
+  }
+
+  return { strength: roundStrength(amount * unit.factor), unit: unit.unit };
+}
+
+// The first strength written in free text, e.g. "Tab Metformin 0.5 g BD" -> 500 mg
+export function parseStrengthText(text: string): Pick<ParsedIngredient, 'strength' | 'unit'> | null {
+  const match = text.match(STRENGTH_PATTERN);
+  return match ? parseStrength(match) : null;
+}
+
+function parsePart(part: string): ParsedIngredient | null {
+  const match = part.match(STRENGTH_PATTERN);
+  const strength = match ? parseStrength(match) : { strength: null, unit: null };
+  const rawName = (match ? part.replace(match[0], ' ') : part)
+    .replace(/[()[\]]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const normalizedName = normalizeIngredientName(rawName);
+  if (!/\p{L}{2,}/u.test(normalizedName)) {
+    return null;
+  }
+
+  return { name: titleCase(rawName), normalizedName, ...strength };
+}
+
+export function parseSaltComposition(saltComposition: string): ParsedIngredient[] {
+  const text = saltComposition.trim();
+  if (!text || /^n\/?a$/i.test(text)) {
+    return [];
+  }
+
+  const parsed = new Map<string, ParsedIngredient>();
+  for (const part of text.split(/\s*(?:,|\+|;|\band\b|\s&\s)\s*/i)) {
+    const ingredient = parsePart(part);
+    // The same ingredient listed twice is one ingredient
+    if (ingredient && !parsed.has(ingredient.normalizedName)) {
+      parsed.set(ingredient.normalizedName, ingredient);
+    }
+  }
+  return [...parsed.values()];
+}
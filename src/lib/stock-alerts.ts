@@ -0,0 +1,158 @@
+import { eq, and, gte, ne, inArray, sql } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { inventory, medicines, orderItems, orders, stockAlerts } from '@/db/schema';
+import { freeQuantity } from '@/lib/stock-reservations';
+
+type Executor = Database | Transaction;
+
+export const STOCK_ALERT_STATUSES = ['open', 'resolved'] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Compare every item that has a reorder threshold with its free stock: raise
+// an alert for items below the threshold that have none open, and resolve
+// open alerts whose item has been restocked or no longer has a threshold.
+export async function scanLowStock(executor: Executor, pharmacyId?: number) {
+  const now = new Date().toISOString();
+
+  const items = await executor
+    .select({
+      id: inventory.id,
+      pharmacyId: inventory.pharmacyId,
+      medicineId: inventory.medicineId,
+      threshold: inventory.reorderThreshold,
+      free: freeQuantity(now),
+    })
+    .from(inventory)
+    .where(pharmacyId === undefined ? undefined : eq(inventory.pharmacyId, pharmacyId));
+
+  const open = await executor
+    .select({ id: stockAlerts.id, inventoryId: stockAlerts.inventoryId })
+    .from(stockAlerts)
+    .where(
+      and(
+        eq(stockAlerts.status, 'open'),
+        pharmacyId === undefined ? undefined : eq(stockAlerts.pharmacyId, pharmacyId)
+      )
+    );
+  const openByInventory = new Map(open.map((alert) => [alert.inventoryId, alert.id]));
+
+  const low = items.filter((item) => item.threshold !== null && item.free < item.threshold);
+  const raised = low.filter((item) => !openByInventory.has(item.id));
+  const resolvedIds = items
+    .filter((item) => openByInventory.has(item.id) && !low.includes(item))
+    .map((item) => openByInventory.get(item.id)!);
+
+  if (raised.length > 0) {
+    await executor
+      .insert(stockAlerts)
+      .values(raised.map((item) => ({
+        inventoryId: item.id,
+        pharmacyId: item.pharmacyId,
+        medicineId: item.medicineId,
+        quantity: Math.max(item.free, 0),
+        threshold: item.threshold!,
+        status: 'open',
+        createdAt: now,
+      })))
+      .onConflictDoNothing();
+  }
+
+  if (resolvedIds.length > 0) {
+    await executor
+      .update(stockAlerts)
+      .set({ status: 'resolved', resolvedAt: now })
+      .where(inArray(stockAlerts.id, resolvedIds));
+  }
+
+  return { scanned: items.length, raised: raised.length, resolved: resolvedIds.length };
+}
+
+export interface ReorderSuggestion {
+  inventoryId: number;
+  medicineId: number;
+  medicineName: string;
+  freeQuantity: number;
+  reorderThreshold: number | null;
+  unitsSold: number;
+  averageDailyDemand: number;
+  // Days the free stock lasts at the average demand; null without demand
+  daysOfCover: number | null;
+  suggestedQuantity: number;
+  hasOpenAlert: boolean;
+}
+
+// Reorder quantities for a pharmacy from its recent demand: enough to cover
+// `coverDays` of the average daily demand over the last `weeks`, on top of
+// the item's reorder threshold kept as safety stock. Cancelled orders and
+// lines the pharmacy could not supply do not count as demand.
+export async function reorderSuggestions(
+  executor: Executor,
+  pharmacyId: number,
+  { weeks, coverDays }: { weeks: number; coverDays: number }
+): Promise<ReorderSuggestion[]> {
+  const since = new Date(Date.now() - weeks * 7 * DAY_MS).toISOString();
+  const periodDays = weeks * 7;
+
+  const demand = await executor
+    .select({
+      medicineId: orderItems.medicineId,
+      unitsSold: sql<number>`sum(${orderItems.quantity})`,
+    })
+    .from(orderItems)
+    .innerJoin(orders, eq(orderItems.orderId, orders.id))
+    .where(
+      and(
+        eq(orders.pharmacyId, pharmacyId),
+        ne(orders.status, 'cancelled'),
+        gte(orders.createdAt, since),
+        eq(orderItems.isAvailable, true)
+      )
+    )
+    .groupBy(orderItems.medicineId);
+  const soldByMedicine = new Map(demand.map((row) => [row.medicineId, row.unitsSold]));
+
+  const items = await executor
+    .select({
+      inventoryId: inventory.id,
+      medicineId: inventory.medicineId,
+      medicineName: medicines.name,
+      reorderThreshold: inventory.reorderThreshold,
+      free: freeQuantity(),
+      openAlertId: stockAlerts.id,
+    })
+    .from(inventory)
+    .innerJoin(medicines, eq(inventory.medicineId, medicines.id))
+    .leftJoin(stockAlerts, and(eq(stockAlerts.inventoryId, inventory.id), eq(stockAlerts.status, 'open')))
+    .where(eq(inventory.pharmacyId, pharmacyId));
+
+  const suggestions: ReorderSuggestion[] = [];
+  for (const item of items) {
+    const unitsSold = soldByMedicine.get(item.medicineId) ?? 0;
+    const averageDailyDemand = unitsSold / periodDays;
+    const free = Math.max(item.free, 0);
+    const target = Math.ceil(averageDailyDemand * coverDays) + (item.reorderThreshold ?? 0);
+    const suggestedQuantity = Math.max(target - free, 0);
+
+    if (suggestedQuantity === 0) continue;
+
+    suggestions.push({
+      inventoryId: item.inventoryId,
+      medicineId: item.medicineId,
+      medicineName: item.medicineName,
+      freeQuantity: free,
+      reorderThreshold: item.reorderThreshold,
+      unitsSold,
+      averageDailyDemand: Math.round(averageDailyDemand * 100) / 100,
+      daysOfCover: averageDailyDemand > 0 ? Math.floor(free / averageDailyDemand) : null,
+      suggestedQuantity,
+      hasOpenAlert: item.openAlertId !== null,
+    });
+  }
+
+  // Items about to run out first; items without demand (threshold only) last
+  return suggestions.sort(
+    (a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) || b.suggestedQuantity - a.suggestedQuantity
+  );
+}
+
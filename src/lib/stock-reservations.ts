@@ -0,0 +1,214 @@
+import { eq, and, gte, lte, inArray, isNull, sql } from 'drizzle-orm';
+import type { Database, Transaction } from '@/db';
+import { inventory, inventoryBatches, orderStockDraws, stockReservations } from '@/db/schema';
+import { ApiError } from '@/lib/api-error';
+import { dispenseFefo, sellableQuantity } from '@/lib/inventory-batches';
+
+// Online orders hold their stock from placement until the payment is
+// captured. Reserved units stay in `inventory.quantity` but are not free to
+// sell; an active reservation past its expiry no longer holds anything, the
+// sweeper only tidies its status.
+
+type Executor = Database | Transaction;
+
+export const RESERVATION_STATUSES = ['active', 'converted', 'released'] as const;
+
+// How long a customer has to complete payment after placing an online order
+export const RESERVATION_TTL_MS = 15 * 60 * 1000;
+
+// Paid-for units an order could not take: its reservation had lapsed and
+// the stock was sold in the meantime
+export interface StockShortfall {
+  inventoryId: number;
+  quantity: number;
+}
+
+export interface ReservationLine {
+  inventoryId: number;
+  medicineId: number;
+  quantity: number;
+}
+
+// Units of an inventory row held by live reservations, for use in queries on `inventory`
+export function reservedQuantity(now: string = new Date().toISOString()) {
+  return sql<number>`coalesce((
+    select sum("reservation"."quantity") from "stock_reservations" "reservation"
+    where "reservation"."inventory_id" = "inventory"."id"
+      and "reservation"."status" = 'active' and "reservation"."expires_at" > ${now}
+  ), 0)`;
+}
+
+// Units of an inventory row that can be sold or reserved right now
+export function freeQuantity(now: string = new Date().toISOString()) {
+  return sql<number>`(${sellableQuantity()} - ${reservedQuantity(now)})`;
+}
+
+// Take units out of stock for an order, first-expiry-first-out, recording
+// the batches they came from. Returns false, changing nothing, when fewer
+// than `quantity` units are free.
+export async function decrementStock(
+  executor: Executor,
+  orderId: number,
+  inventoryId: number,
+  quantity: number
+): Promise<boolean> {
+  const decremented = await executor
+    .update(inventory)
+    .set({
+      quantity: sql`${inventory.quantity} - ${quantity}`,
+      lastUpdated: new Date().toISOString(),
+    })
+    .where(and(eq(inventory.id, inventoryId), gte(freeQuantity(), quantity)))
+    .returning({ id: inventory.id });
+
+  if (decremented.length === 0) return false;
+
+  const taken = await dispenseFefo(executor, inventoryId, quantity);
+  const fromBatches = taken.reduce((sum, batch) => sum + batch.quantity, 0);
+  const now = new Date().toISOString();
+
+  await executor
+    .insert(orderStockDraws)
+    .values([
+      ...taken.map((batch) => ({ orderId, inventoryId, batchId: batch.batchId, quantity: batch.quantity, createdAt: now })),
+      ...(fromBatches < quantity ? [{ orderId, inventoryId, batchId: null, quantity: quantity - fromBatches, createdAt: now }] : []),
+    ]);
+
+  return true;
+}
+
+// Put back everything a cancelled order took from stock, into the batches it
+// came from. Each draw is restocked once.
+export async function restockOrder(executor: Executor, orderId: number): Promise<number> {
+  const now = new Date().toISOString();
+  const draws = await executor
+    .update(orderStockDraws)
+    .set({ restockedAt: now })
+    .where(and(eq(orderStockDraws.orderId, orderId), isNull(orderStockDraws.restockedAt)))
+    .returning();
+
+  for (const draw of draws) {
+    await executor
+      .update(inventory)
+      .set({ quantity: sql`${inventory.quantity} + ${draw.quantity}`, lastUpdated: now })
+      .where(eq(inventory.id, draw.inventoryId));
+
+    if (draw.batchId !== null) {
+      await executor
+        .update(inventoryBatches)
+        .set({ quantity: sql`${inventoryBatches.quantity} + ${draw.quantity}`, updatedAt: now })
+        .where(eq(inventoryBatches.id, draw.batchId));
+    }
+  }
+
+  return draws.reduce((sum, draw) => sum + draw.quantity, 0);
+}
+
+// Hold stock for an order. Each reservation is checked after it is written,
+// so within the transaction it cannot push free stock below zero.
+export async function reserveStock(
+  executor: Executor,
+  orderId: number,
+  lines: ReservationLine[],
+  ttlMs: number = RESERVATION_TTL_MS
+): Promise<string> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlMs).toISOString();
+
+  for (const line of lines) {
+    await executor.insert(stockReservations).values({
+      orderId,
+      inventoryId: line.inventoryId,
+      quantity: line.quantity,
+      status: 'active',
+      expiresAt,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    });
+
+    const [stock] = await executor
+      .select({ free: freeQuantity(now.toISOString()) })
+      .from(inventory)
+      .where(eq(inventory.id, line.inventoryId));
+
+    if (!stock || stock.free < 0) {
+      throw new ApiError('Insufficient stock for medicine', 'OUT_OF_STOCK', 409, {
+        medicineId: line.medicineId,
+      });
+    }
+  }
+
+  return expiresAt;
+}
+
+// Turn an order's reservations into stock decrements once it is paid. A
+// reservation that expired before payment is honoured if the stock is still
+// free; otherwise the shortfall is returned for the pharmacy to resolve.
+export async function convertReservations(executor: Executor, orderId: number) {
+  const reservations = await executor
+    .select()
+    .from(stockReservations)
+    .where(
+      and(
+        eq(stockReservations.orderId, orderId),
+        inArray(stockReservations.status, ['active', 'released'])
+      )
+    );
+
+  const shortfalls: StockShortfall[] = [];
+  for (const reservation of reservations) {
+    const now = new Date().toISOString();
+
+    // Stop counting the reservation as held before taking its units
+    await executor
+      .update(stockReservations)
+      .set({ status: 'converted', updatedAt: now })
+      .where(eq(stockReservations.id, reservation.id));
+
+    if (!(await decrementStock(executor, orderId, reservation.inventoryId, reservation.quantity))) {
+      await executor
+        .update(stockReservations)
+        .set({ status: 'released', updatedAt: now })
+        .where(eq(stockReservations.id, reservation.id));
+      shortfalls.push({ inventoryId: reservation.inventoryId, quantity: reservation.quantity });
+    }
+  }
+
+  return { converted: reservations.length - shortfalls.length, shortfalls };
+}
+
+// Reservations of a paid order that could not be turned into stock
+// decrements; the order waits until the pharmacy restocks or cancels it
+export async function reservationShortfalls(executor: Executor, orderId: number): Promise<StockShortfall[]> {
+  return executor
+    .select({ inventoryId: stockReservations.inventoryId, quantity: stockReservations.quantity })
+    .from(stockReservations)
+    .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'released')));
+}
+
+// Give back everything an order still holds, e.g. when it is cancelled
+export async function releaseReservations(executor: Executor, orderId: number): Promise<number> {
+  const released = await executor
+    .update(stockReservations)
+    .set({ status: 'released', updatedAt: new Date().toISOString() })
+    .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'active')))
+    .returning({ id: stockReservations.id });
+
+  return released.length;
+}
+
+// Mark reservations past their expiry as released
+export async function sweepExpiredReservations(executor: Executor, now: Date = new Date()): Promise<number> {
+  const released = await executor
+    .update(stockReservations)
+    .set({ status: 'released', updatedAt: now.toISOString() })
+    .where(
+      and(
+        eq(stockReservations.status, 'active'),
+        lte(stockReservations.expiresAt, now.toISOString())
+      )
+    )
+    .returning({ id: stockReservations.id });
+
+  return released.length;
+}
@@ -0,0 +1,19 @@
+import { createLocalStorage } from '@/lib/local-storage';
+import type { FileStorage } from '@/lib/storage.types';
+
+let storage: FileStorage | undefined;
+
+// The configured storage, chosen with STORAGE_DRIVER (local by default)
+export function getStorage(): FileStorage {
+  if (!storage) {
+    const driver = process.env.STORAGE_DRIVER || 'local';
+    switch (driver) {
+      case 'local':
+        storage = createLocalStorage();
+        break;
+      default:
+        throw new Error(`Unknown storage driver: ${driver}`);
+    }
+  }
+  return storage;
+}
@@ -0,0 +1,17 @@
+// Provider-neutral file storage. Keys are paths made of letters, digits,
+// `-`, `_`, `.` and `/`, chosen by us and never by the client.
+
+export type StorageDriverName = 'local';
+
+export interface StoredFile {
+  data: Uint8Array;
+  contentType: string;
+}
+
+export interface FileStorage {
+  name: StorageDriverName;
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  // null when there is no file under the key
+  get(key: string): Promise<StoredFile | null>;
+  delete(key: string): Promise<void>;
+}
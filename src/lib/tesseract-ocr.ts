@@ -0,0 +1,94 @@
+import { spawn } from 'child_process';
+import { ApiError } from '@/lib/api-error';
+import type { OcrEngine, OcrLine } from '@/lib/ocr.types';
+
+// OCR with the tesseract command-line engine installed on the server, so
+// prescription images never leave the machine. TESSERACT_PATH points at the
+// binary and TESSERACT_LANG picks the trained languages (eng by default).
+
+const OCR_TIMEOUT_MS = 30 * 1000;
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+function runTesseract(binary: string, args: string[], input: Uint8Array): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new ApiError('Reading the prescription took too long', 'OCR_TIMEOUT', 504));
+    }, OCR_TIMEOUT_MS);
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(error.code === 'ENOENT'
+        ? new ApiError('OCR engine is not installed', 'OCR_UNAVAILABLE', 503)
+        : error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString('utf8'));
+      } else {
+        reject(new Error(`tesseract exited with ${code}: ${Buffer.concat(stderr).toString('utf8').trim()}`));
+      }
+    });
+
+    child.stdin.on('error', () => {
+      // Reported through 'close' with the exit code
+    });
+    child.stdin.end(Buffer.from(input));
+  });
+}
+
+// Words in tesseract's TSV output grouped back into lines, with the mean word
+// confidence of each line
+function parseTsv(tsv: string): OcrLine[] {
+  const lines = new Map<string, { words: string[]; confidences: number[] }>();
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const columns = row.split('\t');
+    if (columns.length < 12 || columns[0] !== '5') continue;
+
+    const word = columns[11].trim();
+    const confidence = parseFloat(columns[10]);
+    if (!word || isNaN(confidence) || confidence < 0) continue;
+
+    const key = columns.slice(1, 5).join(':');
+    const line = lines.get(key) ?? { words: [], confidences: [] };
+    line.words.push(word);
+    line.confidences.push(confidence / 100);
+    lines.set(key, line);
+  }
+
+  return [...lines.values()].map((line) => ({
+    text: line.words.join(' '),
+    confidence: line.confidences.reduce((sum, value) => sum + value, 0) / line.confidences.length,
+  }));
+}
+
+export function createTesseractEngine(
+  binary: string = process.env.TESSERACT_PATH || 'tesseract',
+  language: string = process.env.TESSERACT_LANG || 'eng'
+): OcrEngine {
+  return {
+    name: 'tesseract',
+
+    async recognize(data, contentType) {
+      if (!IMAGE_TYPES.includes(contentType)) {
+        throw new ApiError('Only prescription images can be read automatically', 'OCR_UNSUPPORTED_TYPE', 415, {
+          contentType,
+        });
+      }
+
+      // Page segmentation mode 4: a single column of text of variable sizes
+      const tsv = await runTesseract(binary, ['stdin', 'stdout', '-l', language, '--psm', '4', 'tsv'], data);
+      const lines = parseTsv(tsv);
+      return { text: lines.map((line) => line.text).join('\n'), lines };
+    },
+  };
+}
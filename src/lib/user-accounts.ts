@@ -0,0 +1,93 @@
+import { eq, and, asc, isNull, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+
+// The better-auth fields needed to find or create the matching profile
+export interface AuthIdentity {
+  id: string;
+  email: string;
+  emailVerified: boolean;
+  name: string;
+}
+
+export type DomainUser = typeof users.$inferSelect;
+
+// The profile already linked to a better-auth account; never writes
+export async function findDomainUser(authUserId: string): Promise<DomainUser | null> {
+  const linked = await db
+    .select()
+    .from(users)
+    .where(eq(users.authUserId, authUserId))
+    .limit(1);
+
+  return linked[0] ?? null;
+}
+
+// Find the domain profile for a better-auth account. A profile created
+// before the account signed up (e.g. a pharmacy or rider added by an admin)
+// is claimed by email on first use, but only once the account has verified
+// that address (see emailVerification in lib/auth).
+export async function resolveDomainUser(identity: AuthIdentity): Promise<DomainUser | null> {
+  const linked = await findDomainUser(identity.id);
+  if (linked || !identity.emailVerified) {
+    return linked;
+  }
+
+  // Never re-point a profile already owned by another account
+  const byEmail = await db
+    .select()
+    .from(users)
+    .where(and(eq(sql`lower(${users.email})`, identity.email.toLowerCase()), isNull(users.authUserId)))
+    .orderBy(asc(users.id))
+    .limit(1);
+
+  if (byEmail.length === 0) {
+    return null;
+  }
+
+  const updated = await db
+    .update(users)
+    .set({ authUserId: identity.id, updatedAt: new Date().toISOString() })
+    .where(and(eq(users.id, byEmail[0].id), isNull(users.authUserId)))
+    .returning();
+
+  return updated[0] ?? null;
+}
+
+// Called after better-auth creates or verifies an account: link the existing
+// profile for a verified email, or create a customer profile when no profile
+// holds the address. An unverified account whose address already has a profile
+// gets none until it verifies. Staff roles are granted by admins.
+export async function ensureDomainUser(identity: AuthIdentity): Promise<DomainUser | null> {
+  const existing = await resolveDomainUser(identity);
+  if (existing) {
+    return existing;
+  }
+
+  const email = identity.email.toLowerCase();
+  const taken = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(sql`lower(${users.email})`, email))
+    .limit(1);
+
+  if (taken.length > 0) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const created = await db
+    .insert(users)
+    .values({
+      name: identity.name.trim() || identity.email,
+      email,
+      phone: '',
+      role: 'customer',
+      authUserId: identity.id,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  return created[0];
+}